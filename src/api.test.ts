@@ -89,6 +89,52 @@ describe("api", () => {
       ).rejects.toThrow("Failed to get subscription token");
     });
 
+    test("передает signal в fetch", async () => {
+      const controller = new AbortController();
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ jwt: "test-jwt-token" }),
+      });
+
+      await api.getSubscriptionToken({
+        channel: "test-channel",
+        topics: ["topic1"],
+        signingKey: "test-key",
+        signingKeyFallback: undefined,
+        apiBaseUrl: "https://api.test.com",
+        signal: controller.signal,
+      });
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.any(URL),
+        expect.objectContaining({ signal: controller.signal }),
+      );
+    });
+
+    test("запрашивает один токен для нескольких каналов", async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ jwt: "test-jwt" }),
+      });
+
+      await api.getSubscriptionToken({
+        channels: [
+          { channel: "channel-a", topics: ["topic1", "topic2"] },
+          { channel: "channel-b", topics: ["topic3"] },
+        ],
+        signingKey: "key",
+        signingKeyFallback: undefined,
+        apiBaseUrl: "https://api.test.com",
+      });
+
+      const callArgs = (global.fetch as any).mock.calls[0];
+      expect(JSON.parse(callArgs[1].body)).toEqual([
+        { channel: "channel-a", name: "topic1", kind: "run" },
+        { channel: "channel-a", name: "topic2", kind: "run" },
+        { channel: "channel-b", name: "topic3", kind: "run" },
+      ]);
+    });
+
     test("использует apiBaseUrl если указан", async () => {
       const mockJwt = "test-jwt";
       global.fetch = vi.fn().mockResolvedValue({
@@ -156,4 +202,128 @@ describe("api", () => {
       );
     });
   });
+
+  describe("publish", () => {
+    /**
+     * Stand in for the SDK client's internal API, recording its requests
+     */
+    const createInngestApi = (res: Partial<Response> = { ok: true }) => ({
+      publish: vi.fn().mockResolvedValue({ ok: true }),
+      getTargetUrl: vi.fn(
+        async (path: string) => new URL(path, "http://localhost:8288/"),
+      ),
+      req: vi.fn(async (_url: URL, _options: RequestInit) => ({
+        ok: true as const,
+        value: res as Response,
+      })),
+    });
+
+    test("передает ID сообщения в запросе публикации", async () => {
+      const inngestApi = createInngestApi();
+
+      await api.publish({
+        inngestApi,
+        channel: "test-channel",
+        topic: "topic1",
+        runId: "run-1",
+        id: "run-1:step-1:0",
+        data: { n: 1 },
+      });
+
+      const [url, init] = inngestApi.req.mock.calls[0]!;
+      expect(url.origin).toBe("http://localhost:8288");
+      expect(url.pathname).toBe("/v1/realtime/publish");
+      expect(Object.fromEntries(url.searchParams)).toEqual({
+        channel: "test-channel",
+        topic: "topic1",
+        run_id: "run-1",
+        id: "run-1:step-1:0",
+      });
+      expect(init).toMatchObject({
+        method: "POST",
+        body: JSON.stringify({ n: 1 }),
+        headers: { "Content-Type": "application/json" },
+      });
+    });
+
+    test("не передает ID, если его нет", async () => {
+      const inngestApi = createInngestApi();
+
+      await api.publish({
+        inngestApi,
+        channel: "test-channel",
+        topic: "topic1",
+        runId: "run-1",
+        data: "hello",
+      });
+
+      const [url, init] = inngestApi.req.mock.calls[0]!;
+      expect(url.searchParams.has("id")).toBe(false);
+      expect(init.body).toBe("hello");
+    });
+
+    test("отправляет ReadableStream потоком", async () => {
+      const inngestApi = createInngestApi();
+      const data = new ReadableStream<string>({
+        start(controller) {
+          controller.enqueue("a");
+          controller.close();
+        },
+      });
+
+      await api.publish({
+        inngestApi,
+        channel: "test-channel",
+        topic: "topic1",
+        runId: "run-1",
+        id: "run-1:step-1:0",
+        data,
+      });
+
+      const [url, init] = inngestApi.req.mock.calls[0]!;
+      expect(url.searchParams.get("id")).toBe("run-1:step-1:0");
+      expect(init.body).toBe(data);
+      expect(init).toMatchObject({
+        headers: { "Content-Type": "text/stream" },
+        duplex: "half",
+      });
+    });
+
+    test("использует publish клиента, если отправить свой запрос нельзя", async () => {
+      const publish = vi.fn().mockResolvedValue({ ok: true });
+
+      await api.publish({
+        inngestApi: { publish },
+        channel: "test-channel",
+        topic: "topic1",
+        runId: "run-1",
+        id: "run-1:step-1:0",
+        data: { n: 1 },
+      });
+
+      expect(publish).toHaveBeenCalledWith(
+        { topics: ["topic1"], channel: "test-channel", runId: "run-1" },
+        { n: 1 },
+      );
+    });
+
+    test("выбрасывает ошибку при неудачном запросе", async () => {
+      const inngestApi = createInngestApi({
+        ok: false,
+        status: 500,
+        statusText: "Internal Server Error",
+        text: async () => "Error details",
+      });
+
+      await expect(
+        api.publish({
+          inngestApi,
+          channel: "test-channel",
+          topic: "topic1",
+          runId: "run-1",
+          data: {},
+        }),
+      ).rejects.toThrow("Failed to publish event: 500");
+    });
+  });
 });
@@ -4,19 +4,59 @@ import { fetchWithAuthFallback, parseAsBoolean } from "./util";
 
 const tokenSchema = z.object({ jwt: z.string() });
 
+/**
+ * The parts of the SDK client's internal API used to publish messages
+ */
+export interface InngestApiLike {
+  /**
+   * Publish a message, without support for message IDs
+   */
+  publish(
+    options: { topics: string[]; channel: string; runId: string },
+    data: unknown,
+  ): Promise<{ ok: boolean; error?: { error?: string } }>;
+
+  /**
+   * Get the URL of an endpoint on the client's target, such as the dev server
+   */
+  getTargetUrl?(path: string): Promise<URL>;
+
+  /**
+   * Send a request with the client's `fetch` and signing keys
+   */
+  req?(
+    url: URL,
+    options: RequestInit & { duplex?: "half" },
+  ): Promise<{ ok: true; value: Response } | { ok: false; error: unknown }>;
+}
+
 export const api = {
   async getSubscriptionToken({
-    channel,
-    topics,
     signingKey,
     signingKeyFallback,
     apiBaseUrl,
-  }: {
-    channel: string;
-    topics: string[];
+    signal,
+    ...args
+  }: (
+    | {
+        channel: string;
+        topics: string[];
+      }
+    | {
+        /**
+         * Multiple channels and their topics to cover with a single token
+         */
+        channels: { channel: string; topics: string[] }[];
+      }
+  ) & {
     signingKey: string | undefined;
     signingKeyFallback: string | undefined;
     apiBaseUrl: string | undefined;
+
+    /**
+     * Abort the request
+     */
+    signal?: AbortSignal;
   }): Promise<string> {
     let url: URL;
     const path = "/v1/realtime/token";
@@ -49,11 +89,18 @@ export const api = {
       );
     }
 
-    const body = topics.map((topic) => ({
-      channel,
-      name: topic,
-      kind: "run",
-    }));
+    const channels =
+      "channels" in args
+        ? args.channels
+        : [{ channel: args.channel, topics: args.topics }];
+
+    const body = channels.flatMap(({ channel, topics }) =>
+      topics.map((topic) => ({
+        channel,
+        name: topic,
+        kind: "run",
+      })),
+    );
 
     const res = await fetchWithAuthFallback({
       authToken: signingKey,
@@ -63,6 +110,7 @@ export const api = {
       options: {
         method: "POST",
         body: JSON.stringify(body),
+        signal,
         headers: {
           "Content-Type": "application/json",
         },
@@ -80,4 +128,87 @@ export const api = {
     const data = await res.json();
     return tokenSchema.parse(data).jwt;
   },
+
+  async publish({
+    inngestApi,
+    channel,
+    topic,
+    runId,
+    id,
+    data,
+  }: {
+    /**
+     * The SDK client's internal API, so that messages are sent to the client's
+     * target with its own `fetch` and keys
+     */
+    inngestApi: InngestApiLike;
+
+    channel: string;
+    topic: string;
+    runId: string;
+
+    /**
+     * Stable ID for the message, which subscribers use to drop duplicates
+     */
+    id?: string;
+
+    data: unknown;
+  }): Promise<void> {
+    // Older clients can't send a request of our own, so publish without the
+    // ID rather than not at all
+    if (
+      typeof inngestApi.getTargetUrl !== "function" ||
+      typeof inngestApi.req !== "function"
+    ) {
+      const result = await inngestApi.publish(
+        { topics: [topic], channel, runId },
+        data,
+      );
+
+      if (!result.ok) {
+        throw new Error(`Failed to publish event: ${result.error?.error}`);
+      }
+
+      return;
+    }
+
+    const isStream = data instanceof ReadableStream;
+
+    const url = await inngestApi.getTargetUrl("/v1/realtime/publish");
+    url.searchParams.set("channel", channel);
+    url.searchParams.set("topic", topic);
+    url.searchParams.set("run_id", runId);
+    if (id) {
+      url.searchParams.set("id", id);
+    }
+
+    // Streams are sent as they're read, as the SDK's own `publish()` does
+    const result = await inngestApi.req(url, {
+      method: "POST",
+      body: isStream
+        ? data
+        : typeof data === "string"
+          ? data
+          : JSON.stringify(data),
+      headers: {
+        "Content-Type": isStream ? "text/stream" : "application/json",
+      },
+      ...(isStream ? { duplex: "half" } : {}),
+    });
+
+    if (!result.ok) {
+      throw new Error(`Failed to publish event: ${String(result.error)}`, {
+        cause: result.error,
+      });
+    }
+
+    const res = result.value;
+    if (!res.ok) {
+      throw new Error(
+        `Failed to publish event: ${res.status} ${
+          res.statusText
+        } - ${await res.text()}`,
+      );
+    }
+  },
 };
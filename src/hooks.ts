@@ -1,5 +1,6 @@
 import { useEffect, useRef, useState } from "react";
-import { subscribe } from "./subscribe";
+import { subscribe, subscribeToProxy } from "./subscribe";
+import { type ProxySubscriptionOptions } from "./subscribe/ProxySubscription";
 import { type Realtime } from "./types";
 
 export enum InngestSubscriptionState {
@@ -14,21 +15,24 @@ export enum InngestSubscriptionState {
 /**
  * Inngest subscription state and data
  */
-export interface InngestSubscription<TToken extends Realtime.Subscribe.Token> {
+export interface InngestSubscription<
+  TToken extends Realtime.Subscribe.AnyToken,
+  TMessage = Realtime.Subscribe.InferMessage<TToken>,
+> {
   /**
    * All received messages
    */
-  data: Realtime.Subscribe.Token.InferMessage<TToken>[];
+  data: TMessage[];
 
   /**
    * Most recent message
    */
-  latestData: Realtime.Subscribe.Token.InferMessage<TToken> | null;
+  latestData: TMessage | null;
 
   /**
    * Messages received since last render
    */
-  freshData: Realtime.Subscribe.Token.InferMessage<TToken>[];
+  freshData: TMessage[];
 
   /**
    * Connection or subscription error
@@ -45,13 +49,17 @@ export interface InngestSubscription<TToken extends Realtime.Subscribe.Token> {
  * React hook for subscribing to Inngest realtime channels
  */
 export function useInngestSubscription<
-  const TToken extends Realtime.Subscribe.Token | null | undefined,
+  const TToken extends Realtime.Subscribe.AnyToken | null | undefined,
+  const TKinds extends Realtime.Message.Any["kind"][] = never,
 >({
   token: tokenInput,
   refreshToken,
   key,
   enabled = true,
   bufferInterval = 0,
+  retry,
+  proxy,
+  kinds,
 }: {
   /**
    * Subscription token
@@ -77,22 +85,63 @@ export function useInngestSubscription<
    * Interval in ms to buffer messages (0 = no buffering)
    */
   bufferInterval?: number;
-}): InngestSubscription<NonNullable<TToken>> {
+
+  /**
+   * Policy used to reconnect after the connection drops unexpectedly
+   */
+  retry?: Realtime.Subscribe.RetryPolicy;
+
+  /**
+   * Consume messages from an endpoint on your own server that proxies the
+   * subscription, such as one returning `toSSEResponse()`, instead of
+   * connecting directly. The token's channel and topics are used to validate
+   * messages, and it doesn't need a key.
+   */
+  proxy?: ProxySubscriptionOptions;
+
+  /**
+   * Only receive messages of these kinds.
+   *
+   * Run, step and event lifecycle messages are opt-in, and are only received
+   * if their kinds are given here. Without `kinds`, every other message is
+   * received.
+   */
+  kinds?: TKinds;
+}): InngestSubscription<
+  NonNullable<TToken>,
+  Realtime.Subscribe.InferMessageOfKinds<NonNullable<TToken>, TKinds>
+> {
   const [token, setToken] = useState<TToken | null | undefined>(tokenInput);
-  const [data, setData] = useState<Realtime.Message[]>([]);
-  const [freshData, setFreshData] = useState<Realtime.Message[]>([]);
+  const [data, setData] = useState<Realtime.Message.Any[]>([]);
+  const [freshData, setFreshData] = useState<Realtime.Message.Any[]>([]);
   const [error, setError] = useState<Error | null>(null);
   const [state, setState] = useState<InngestSubscriptionState>(
     InngestSubscriptionState.Closed,
   );
 
-  const subscriptionRef = useRef<Realtime.Subscribe.StreamSubscription | null>(
-    null,
-  );
+  const subscriptionRef = useRef<
+    | Realtime.Subscribe.StreamSubscription<
+        Realtime.Subscribe.AnyToken,
+        Realtime.Message.Any
+      >
+    | Realtime.Subscribe.ProxySubscription<
+        Realtime.Subscribe.AnyToken,
+        Realtime.Message.Any
+      >
+    | null
+  >(null);
   const readerRef =
-    useRef<ReadableStreamDefaultReader<Realtime.Message> | null>(null);
-  const messageBuffer = useRef<Realtime.Message[]>([]);
+    useRef<ReadableStreamDefaultReader<Realtime.Message.Any> | null>(null);
+  const messageBuffer = useRef<Realtime.Message.Any[]>([]);
   const bufferIntervalRef = useRef<number>(bufferInterval);
+  const retryRef = useRef(retry);
+  retryRef.current = retry;
+  const refreshTokenRef = useRef(refreshToken);
+  refreshTokenRef.current = refreshToken;
+  const proxyRef = useRef(proxy);
+  proxyRef.current = proxy;
+  const kindsRef = useRef<Realtime.Message.Any["kind"][] | undefined>(kinds);
+  kindsRef.current = kinds;
   const currentKeyRef = useRef<string | undefined>(key);
   const fetchingTokenRef = useRef(false);
 
@@ -149,8 +198,53 @@ export function useInngestSubscription<
     const start = async () => {
       try {
         setState(InngestSubscriptionState.Connecting);
-        const stream = await subscribe({ ...token });
-        if (cancelled) return;
+
+        let stream:
+          | Realtime.Subscribe.StreamSubscription<
+              Realtime.Subscribe.AnyToken,
+              Realtime.Message.Any
+            >
+          | Realtime.Subscribe.ProxySubscription<
+              Realtime.Subscribe.AnyToken,
+              Realtime.Message.Any
+            >;
+
+        if (proxyRef.current) {
+          stream = await subscribeToProxy({
+            ...(token as Realtime.Subscribe.Token),
+            retry: retryRef.current,
+            ...proxyRef.current,
+            kinds: kindsRef.current,
+          });
+        } else {
+          const tokenStream = await subscribe({
+            ...token,
+            retry: retryRef.current,
+            kinds: kindsRef.current,
+            refreshToken: refreshTokenRef.current
+              ? async () => {
+                  const newToken = await refreshTokenRef.current?.();
+                  return newToken?.key;
+                }
+              : undefined,
+          });
+
+          // Reflect the subscription reconnecting in the background
+          tokenStream.on("reconnecting", () => {
+            if (!cancelled) setState(InngestSubscriptionState.Connecting);
+          });
+          tokenStream.on("reconnected", () => {
+            if (!cancelled) setState(InngestSubscriptionState.Active);
+          });
+
+          stream = tokenStream;
+        }
+
+        // Unmounted while subscribing, so cleanup couldn't close it for us
+        if (cancelled) {
+          stream.close();
+          return;
+        }
 
         subscriptionRef.current = stream;
         setState(InngestSubscriptionState.Active);
@@ -218,11 +312,8 @@ export function useInngestSubscription<
           // Reader might already be released
         }
 
-        try {
-          await subToRemove?.cancel();
-        } catch {
-          // Subscription might already be cancelled
-        }
+        // Tear down the connection and any pending reconnection straight away
+        subToRemove?.close();
       };
 
       cleanup()
@@ -264,5 +355,8 @@ export function useInngestSubscription<
     freshData,
     error,
     state,
-  } as unknown as InngestSubscription<NonNullable<TToken>>;
+  } as unknown as InngestSubscription<
+    NonNullable<TToken>,
+    Realtime.Subscribe.InferMessageOfKinds<NonNullable<TToken>, TKinds>
+  >;
 }
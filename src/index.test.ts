@@ -2,7 +2,12 @@
 import { Inngest } from "inngest";
 import * as v from "valibot";
 import { channel, typeOnlyChannel } from "./channel";
-import { getSubscriptionToken, subscribe } from "./subscribe";
+import {
+  getSubscriptionToken,
+  subscribe,
+  subscribeToProxy,
+  subscribeToRun,
+} from "./subscribe";
 import { topic } from "./topic";
 import { type Realtime } from "./types";
 
@@ -191,6 +196,55 @@ describe("subscribe", () => {
             topic("test").schema(false);
           };
         });
+
+        test("chunks are typed like messages without a chunk schema", () => {
+          const t = topic("test").schema(v.string());
+
+          expect(t.getStreamSchema()).toBeUndefined();
+
+          assertType<IsEqual<string, Realtime.Topic.InferChunk<typeof t>>>(
+            true,
+          );
+        });
+
+        test("can add a chunk schema to a topic", () => {
+          const t = topic("test")
+            .stream(v.object({ token: v.string() }))
+            .schema(v.number());
+
+          expect(t.getStreamSchema()).toBeDefined();
+
+          assertType<IsEqual<number, Realtime.Topic.InferSubscribe<typeof t>>>(
+            true,
+          );
+          assertType<
+            IsEqual<{ token: string }, Realtime.Topic.InferChunk<typeof t>>
+          >(true);
+        });
+
+        test("streams in messages are typed by the chunk schema", () => {
+          const _fn = async () => {
+            const streamChannel = channel("stream").addTopic(
+              topic("tokens")
+                .schema(v.object({ done: v.boolean() }))
+                .stream(v.string()),
+            );
+
+            const stream = await subscribe({
+              channel: streamChannel(),
+              topics: ["tokens"],
+            });
+
+            for await (const message of stream) {
+              if (message.kind === "chunk") {
+                assertType<IsEqual<typeof message.data, string>>(true);
+                assertType<
+                  IsEqual<typeof message.stream, ReadableStream<string>>
+                >(true);
+              }
+            }
+          };
+        });
       });
 
       describe("channel", () => {
@@ -615,6 +669,458 @@ describe("subscribe", () => {
       });
     });
 
+    describe("dynamic topics", () => {
+      test("adding topics widens the message type", () => {
+        const _fn = async () => {
+          const stream = await subscribe({
+            channel: staticChannel(),
+            topics: ["created"],
+          });
+
+          const widened = await stream.addTopics(["updated"]);
+
+          for await (const message of widened) {
+            assertType<IsEqual<typeof message.topic, "created" | "updated">>(
+              true,
+            );
+
+            if (message.topic === "updated") {
+              assertType<boolean>(message.data);
+            }
+          }
+        };
+      });
+
+      test("removing topics narrows the message type", () => {
+        const _fn = async () => {
+          const stream = await subscribe({
+            channel: staticChannel(),
+            topics: ["created", "updated"],
+          });
+
+          const narrowed = await stream.removeTopics(["updated"]);
+
+          for await (const message of narrowed) {
+            assertType<IsEqual<typeof message.topic, "created">>(true);
+            assertType<{ id: string; name: string }>(message.data);
+          }
+        };
+      });
+
+      test("errors if added topic names are incorrect", () => {
+        const _fn = async () => {
+          const stream = await subscribe({
+            channel: staticChannel(),
+            topics: ["created"],
+          });
+
+          // @ts-expect-error Unknown topic
+          await stream.addTopics(["unknown"]);
+        };
+      });
+    });
+
+    describe("multiple channels", () => {
+      test("messages are a union across channels", () => {
+        const _fn = async () => {
+          const stream = await subscribe(
+            {
+              channels: [
+                { channel: staticChannel(), topics: ["created"] },
+                { channel: userChannel("123"), topics: ["updated"] },
+              ],
+            },
+            (message) => {
+              assertType<"static" | `user/${string}`>(message.channel);
+            },
+          );
+
+          for await (const message of stream) {
+            if (message.channel === "static") {
+              assertType<IsEqual<typeof message.topic, "created">>(true);
+              assertType<{ id: string; name: string }>(message.data);
+            } else {
+              assertType<IsEqual<typeof message.topic, "updated">>(true);
+              assertType<boolean>(message.data);
+            }
+          }
+        };
+      });
+
+      test("errors if topic names are incorrect for a channel", () => {
+        const _fn = () => {
+          void subscribe({
+            channels: [
+              { channel: staticChannel(), topics: ["created"] },
+              // @ts-expect-error Incorrect topic
+              { channel: userChannel("123"), topics: ["test"] },
+            ],
+          });
+        };
+      });
+
+      test("changing topics requires a channel", () => {
+        const _fn = async () => {
+          const stream = await subscribe({
+            channels: [
+              { channel: staticChannel(), topics: ["created"] },
+              { channel: userChannel("123"), topics: ["updated"] },
+            ],
+          });
+
+          await stream.addTopics(["updated"], { channel: "static" });
+
+          // @ts-expect-error Missing channel
+          await stream.removeTopics(["created"]);
+        };
+      });
+
+      test("can get a single token for several channels", () => {
+        const _fn = async () => {
+          const token = await getSubscriptionToken(app, {
+            channels: [
+              { channel: staticChannel(), topics: ["created"] },
+              { channel: "test", topics: ["foo"] },
+            ],
+          });
+
+          const stream = await subscribe(token);
+
+          for await (const message of stream) {
+            assertType<"static" | "test">(message.channel);
+          }
+        };
+      });
+    });
+
+    describe("lifecycle messages", () => {
+      test("are not delivered unless asked for", () => {
+        const _fn = async () => {
+          const stream = await subscribe({
+            channel: staticChannel(),
+            topics: ["created"],
+          });
+
+          for await (const message of stream) {
+            assertType<
+              IsEqual<
+                typeof message.kind,
+                "data" | "datastream-start" | "datastream-end" | "chunk"
+              >
+            >(true);
+          }
+        };
+      });
+
+      test("run, step and event messages are typed by kind", () => {
+        const _fn = async () => {
+          const stream = await subscribe({
+            channel: staticChannel(),
+            topics: ["created"],
+          });
+
+          for await (const message of stream.getJsonStream({
+            kinds: ["data", "run", "step", "event"],
+          })) {
+            if (message.kind === "run") {
+              assertType<"static">(message.channel);
+              assertType<string>(message.runId);
+
+              if (message.data.status === "completed") {
+                assertType<unknown>(message.data.output);
+              } else if (message.data.status === "failed") {
+                assertType<string>(message.data.error.message);
+              }
+            } else if (message.kind === "step") {
+              assertType<string>(message.data.id);
+            } else if (message.kind === "event") {
+              assertType<string>(message.data.name);
+            } else {
+              assertType<IsEqual<typeof message.topic, "created">>(true);
+            }
+          }
+        };
+      });
+
+      test("are delivered to the stream and callback when asked for", () => {
+        const _fn = async () => {
+          const stream = await subscribe(
+            {
+              channel: staticChannel(),
+              topics: ["created"],
+              kinds: ["data", "run"],
+            },
+            (message) => {
+              assertType<IsEqual<typeof message.kind, "data" | "run">>(true);
+            },
+          );
+
+          for await (const message of stream) {
+            assertType<IsEqual<typeof message.kind, "data" | "run">>(true);
+
+            if (message.kind === "run") {
+              assertType<"static">(message.channel);
+            }
+          }
+        };
+      });
+
+      test("are delivered to a proxied subscription when asked for", () => {
+        const _fn = async () => {
+          const stream = await subscribeToProxy({
+            channel: staticChannel(),
+            topics: ["created"],
+            url: "/api/realtime",
+            kinds: ["step"],
+          });
+
+          for await (const message of stream) {
+            assertType<IsEqual<typeof message.kind, "step">>(true);
+          }
+        };
+      });
+
+      test("errors if a kind is unknown", () => {
+        const _fn = async () => {
+          await subscribe({
+            channel: staticChannel(),
+            topics: ["created"],
+            // @ts-expect-error Unknown kind
+            kinds: ["unknown"],
+          });
+        };
+      });
+    });
+
+    describe("filtered streams", () => {
+      test("narrows messages to the selected topics", () => {
+        const _fn = async () => {
+          const stream = await subscribe({
+            channel: staticChannel(),
+            topics: ["created", "updated"],
+          });
+
+          for await (const message of stream.getJsonStream({
+            topics: ["created"],
+          })) {
+            assertType<IsEqual<typeof message.topic, "created">>(true);
+            assertType<{ id: string; name: string }>(message.data);
+          }
+        };
+      });
+
+      test("narrows messages to the selected kinds", () => {
+        const _fn = async () => {
+          const stream = await subscribe({
+            channel: staticChannel(),
+            topics: ["created"],
+          });
+
+          for await (const message of stream.getJsonStream({
+            kinds: ["run"],
+            runId: "run-1",
+          })) {
+            assertType<IsEqual<typeof message.kind, "run">>(true);
+            assertType<"started" | "completed" | "failed" | "cancelled">(
+              message.data.status,
+            );
+          }
+        };
+      });
+
+      test("errors if topic names are incorrect", () => {
+        const _fn = async () => {
+          const stream = await subscribe({
+            channel: staticChannel(),
+            topics: ["created"],
+          });
+
+          // @ts-expect-error Unknown topic
+          stream.getJsonStream({ topics: ["updated"] });
+        };
+      });
+    });
+
+    describe("topic handlers", () => {
+      test("handler data is typed by the topic", () => {
+        const _fn = async () => {
+          const stream = await subscribe({
+            channel: staticChannel(),
+            topics: ["created", "updated"],
+          });
+
+          stream.on("created", (data, message) => {
+            assertType<{ id: string; name: string }>(data);
+            assertType<IsEqual<typeof message.topic, "created">>(true);
+          });
+
+          stream.on("state", (state) => {
+            assertType<Realtime.Subscribe.State>(state);
+          });
+        };
+      });
+
+      test("errors if topic names are incorrect", () => {
+        const _fn = async () => {
+          const stream = await subscribe({
+            channel: staticChannel(),
+            topics: ["created"],
+          });
+
+          // @ts-expect-error Unknown topic
+          stream.on("updated", () => {});
+        };
+      });
+
+      test("iterating yields typed messages", () => {
+        const _fn = async () => {
+          const stream = await subscribe({
+            channel: staticChannel(),
+            topics: ["created"],
+          });
+
+          for await (const message of stream) {
+            if (message.kind === "data") {
+              assertType<IsEqual<typeof message.topic, "created">>(true);
+            }
+          }
+        };
+      });
+    });
+
+    describe("proxied subscriptions", () => {
+      test("messages are typed by the channel's topics", () => {
+        const _fn = async () => {
+          const stream = await subscribeToProxy({
+            channel: staticChannel(),
+            topics: ["created"],
+            url: "/api/realtime",
+          });
+
+          for await (const message of stream) {
+            if (message.kind === "data") {
+              assertType<IsEqual<typeof message.topic, "created">>(true);
+              assertType<{ id: string; name: string }>(message.data);
+            }
+          }
+        };
+      });
+
+      test("errors if topic names are incorrect", () => {
+        const _fn = async () => {
+          await subscribeToProxy({
+            channel: staticChannel(),
+            // @ts-expect-error Unknown topic
+            topics: ["unknown"],
+            url: "/api/realtime",
+          });
+        };
+      });
+    });
+
+    describe("WebSocket implementations", () => {
+      test("accepts the global WebSocket", () => {
+        const _fn = async () => {
+          await subscribe({
+            channel: "test",
+            topics: ["a"],
+            WebSocket,
+          });
+        };
+      });
+
+      test("handler events are typed", () => {
+        const _fn = (ws: Realtime.Subscribe.WebSocketConstructor.Instance) => {
+          ws.onmessage = (event) => {
+            assertType<IsAny<typeof event.data>>(false);
+            assertType<IsEqual<typeof event.data, unknown>>(true);
+          };
+
+          ws.onclose = (event) => {
+            assertType<number>(event.code);
+          };
+        };
+      });
+    });
+
+    describe("runs", () => {
+      test("run result is typed by the output schema", () => {
+        const _fn = async () => {
+          const run = await subscribeToRun({
+            runId: "run-1",
+            output: v.object({ ok: v.boolean() }),
+          });
+
+          assertType<IsEqual<typeof run.result, Promise<{ ok: boolean }>>>(
+            true,
+          );
+
+          for await (const message of run) {
+            if (message.kind === "run" && message.data.status === "failed") {
+              assertType<string>(message.data.error.message);
+            }
+          }
+        };
+      });
+
+      test("messages are typed by the channel's topics", () => {
+        const _fn = async () => {
+          const run = await subscribeToRun({
+            runId: "run-1",
+            channel: staticChannel(),
+            topics: ["created"],
+          });
+
+          for await (const message of run) {
+            if (message.topic) {
+              assertType<IsEqual<typeof message.topic, "created">>(true);
+              assertType<{ id: string; name: string }>(message.data);
+            }
+          }
+        };
+      });
+
+      test("output schema doesn't stop the channel's topics being inferred", () => {
+        const _fn = async () => {
+          const run = await subscribeToRun({
+            runId: "run-1",
+            channel: staticChannel(),
+            topics: ["created"],
+            output: v.object({ ok: v.boolean() }),
+          });
+
+          assertType<IsEqual<typeof run.result, Promise<{ ok: boolean }>>>(
+            true,
+          );
+
+          for await (const message of run) {
+            if (message.topic) {
+              assertType<IsEqual<typeof message.topic, "created">>(true);
+            }
+          }
+        };
+      });
+
+      test("run result is unknown without an output schema", () => {
+        const _fn = async () => {
+          const run = await subscribeToRun({ runId: "run-1" });
+
+          assertType<IsEqual<typeof run.result, Promise<unknown>>>(true);
+        };
+      });
+
+      test("errors if topic names are incorrect", () => {
+        const _fn = () => {
+          void subscribeToRun({
+            runId: "run-1",
+            channel: staticChannel(),
+            // @ts-expect-error Unknown topic
+            topics: ["unknown"],
+          });
+        };
+      });
+    });
+
     describe("tokens", () => {
       test("can subscribe with a string-only token", () => {
         const _fn = async () => {
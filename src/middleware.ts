@@ -1,5 +1,6 @@
 import { InngestMiddleware } from "inngest";
 import { getAsyncCtx } from "inngest/experimental";
+import { api } from "./api";
 import type { Realtime } from "./types";
 
 export const realtimeMiddleware = () => {
@@ -10,6 +11,10 @@ export const realtimeMiddleware = () => {
         onFunctionRun({ ctx: { runId } }) {
           return {
             transformInput({ ctx: { step } }) {
+              // Count publishes within each step so that every message gets a
+              // distinct ID that stays the same if the step is retried.
+              const publishCounts = new Map<string, number>();
+
               const publish: Realtime.PublishFn = async (input) => {
                 const { topic, channel, data } = await input;
 
@@ -20,23 +25,20 @@ export const realtimeMiddleware = () => {
                   );
                 }
 
-                const publishOpts = {
-                  topics: [topic],
-                  channel,
-                  runId,
-                };
-
                 const action = async () => {
-                  const result = await client["inngestApi"].publish(
-                    publishOpts,
-                    data,
-                  );
+                  const id = await getMessageId(runId, publishCounts);
 
-                  if (!result.ok) {
-                    throw new Error(
-                      `Failed to publish event: ${result.error?.error}`,
-                    );
-                  }
+                  // The client's own `publish()` drops any options it doesn't
+                  // know about, so its API is used to send the request with
+                  // the ID included
+                  await api.publish({
+                    inngestApi: client["inngestApi"],
+                    channel,
+                    topic,
+                    runId,
+                    id,
+                    data,
+                  });
                 };
 
                 // This could be a couple of different versions, but is now
@@ -48,7 +50,7 @@ export const realtimeMiddleware = () => {
                 return (
                   isExecutingStep
                     ? action()
-                    : step.run(`publish:${publishOpts.channel}`, action)
+                    : step.run(`publish:${channel}`, action)
                 ).then(() => {
                   // Always return the data passed in to the `publish` call.
 
@@ -72,5 +74,28 @@ export const realtimeMiddleware = () => {
   });
 };
 
+/**
+ * Get a stable ID for a message published from the currently executing step,
+ * so that subscribers can drop it if a retried step publishes it again.
+ */
+const getMessageId = async (
+  runId: string,
+  publishCounts: Map<string, number>,
+): Promise<string | undefined> => {
+  const store = await getAsyncCtx();
+
+  const stepId: string | undefined = (
+    (store as any)?.executingStep || (store as any)?.execution?.executingStep
+  )?.id;
+  if (!stepId) {
+    return;
+  }
+
+  const count = publishCounts.get(stepId) ?? 0;
+  publishCounts.set(stepId, count + 1);
+
+  return `${runId}:${stepId}:${count}`;
+};
+
 // Re-export types from here, as this is used as a separate entrypoint now
 export * from "./types";
@@ -0,0 +1,136 @@
+import { describe, test, expect, vi, afterEach } from "vitest";
+import { ChunkStreams } from "./ChunkStreams";
+import { StreamInterruptedError } from "./errors";
+
+const readAll = async (stream: ReadableStream) => {
+  const chunks: unknown[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+};
+
+describe("ChunkStreams", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("собирает фрагменты в поток до завершения", async () => {
+    const streams = new ChunkStreams();
+    const stream = streams.open("s1")!;
+
+    streams.enqueue("s1", "a");
+    streams.enqueue("s1", "b");
+    expect(streams.end("s1")).toBe(stream);
+
+    expect(await readAll(stream)).toEqual(["a", "b"]);
+    expect(streams.size()).toBe(0);
+  });
+
+  test("не открывает поток с существующим ID", () => {
+    const streams = new ChunkStreams();
+    streams.open("s1");
+
+    expect(streams.open("s1")).toBeUndefined();
+    expect(streams.enqueue("s2", "a")).toBeUndefined();
+    expect(streams.end("s2")).toBeUndefined();
+  });
+
+  test("прерывает открытые потоки с ошибкой StreamInterruptedError", async () => {
+    const streams = new ChunkStreams();
+    const stream = streams.open("s1")!;
+    streams.enqueue("s1", "a");
+    streams.enqueue("s1", "b");
+
+    streams.interruptAll("disconnected");
+
+    const reader = stream.getReader();
+    await expect(reader.read()).resolves.toEqual({ done: false, value: "a" });
+    await expect(reader.read()).resolves.toEqual({ done: false, value: "b" });
+
+    const err = await reader.read().catch((err: unknown) => err);
+    expect(err).toBeInstanceOf(StreamInterruptedError);
+    expect(err).toMatchObject({
+      name: "StreamInterruptedError",
+      streamId: "s1",
+      chunksReceived: 2,
+      reason: "disconnected",
+    });
+    expect(streams.size()).toBe(0);
+  });
+
+  test("прерывает один поток, не затрагивая остальные", async () => {
+    const streams = new ChunkStreams();
+    const first = streams.open("s1")!;
+    streams.open("s2");
+    streams.enqueue("s1", "a");
+
+    expect(streams.interrupt("s1", "invalid")).toBe(first);
+    expect(streams.interrupt("s1", "invalid")).toBeUndefined();
+
+    const reader = first.getReader();
+    await expect(reader.read()).resolves.toEqual({ done: false, value: "a" });
+    await expect(reader.read()).rejects.toMatchObject({
+      streamId: "s1",
+      chunksReceived: 1,
+      reason: "invalid",
+    });
+    expect(streams.size()).toBe(1);
+    expect(streams.get("s2")).toBeDefined();
+  });
+
+  test("прерывает поток без фрагментов дольше streamIdleTimeout", async () => {
+    vi.useFakeTimers();
+    const streams = new ChunkStreams({ streamIdleTimeout: 1_000 });
+    const stream = streams.open("s1")!;
+    const result = readAll(stream).catch((err: unknown) => err);
+
+    await vi.advanceTimersByTimeAsync(800);
+    streams.enqueue("s1", "a");
+    await vi.advanceTimersByTimeAsync(800);
+    expect(streams.size()).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(await result).toMatchObject({
+      streamId: "s1",
+      chunksReceived: 1,
+      reason: "idle",
+    });
+    expect(streams.size()).toBe(0);
+  });
+
+  test("не ограничивает время ожидания при streamIdleTimeout: 0", async () => {
+    vi.useFakeTimers();
+    const streams = new ChunkStreams({ streamIdleTimeout: 0 });
+    streams.open("s1");
+
+    await vi.advanceTimersByTimeAsync(24 * 60 * 60 * 1_000);
+
+    expect(streams.size()).toBe(1);
+  });
+
+  test("прерывает самый старый поток при превышении maxOpenStreams", async () => {
+    const streams = new ChunkStreams({ maxOpenStreams: 2 });
+    const first = streams.open("s1")!;
+    streams.open("s2");
+    streams.open("s3");
+
+    await expect(first.getReader().read()).rejects.toMatchObject({
+      streamId: "s1",
+      reason: "limit",
+    });
+    expect(streams.size()).toBe(2);
+    expect(streams.get("s2")).toBeDefined();
+    expect(streams.get("s3")).toBeDefined();
+  });
+
+  test("удаляет поток, отменённый потребителем", async () => {
+    const streams = new ChunkStreams();
+    const stream = streams.open("s1")!;
+
+    await stream.cancel();
+
+    expect(streams.size()).toBe(0);
+    expect(streams.enqueue("s1", "a")).toBeUndefined();
+  });
+});
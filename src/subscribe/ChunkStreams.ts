@@ -0,0 +1,224 @@
+import debug from "debug";
+import { StreamInterruptedError, type StreamInterruptedReason } from "./errors";
+
+/**
+ * How long a datastream can go without a chunk by default before it's treated
+ * as cut off.
+ */
+const defaultIdleTimeout = 300_000;
+
+/**
+ * How many datastreams can be open at once by default.
+ */
+const defaultMaxOpen = 100;
+
+/**
+ * A datastream that has started but not yet ended
+ */
+type OpenStream = {
+  stream: ReadableStream;
+  controller: ReadableStreamDefaultController;
+  chunksReceived: number;
+  idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+  /**
+   * Error to fail the stream with once its queued chunks have been read
+   */
+  error?: StreamInterruptedError;
+};
+
+/**
+ * Options for the datastreams of a subscription
+ */
+export interface ChunkStreamsOptions {
+  /**
+   * Fail a datastream with a `StreamInterruptedError` if no chunks are
+   * received for it for this many milliseconds. Defaults to 5 minutes; pass
+   * `0` to disable.
+   */
+  streamIdleTimeout?: number;
+
+  /**
+   * The most datastreams that can be open at once. When another starts, the
+   * oldest is failed with a `StreamInterruptedError`. Defaults to 100.
+   */
+  maxOpenStreams?: number;
+}
+
+/**
+ * Rebuilds datastreams into `ReadableStream`s as their chunks arrive, failing
+ * any that are cut off before they end.
+ */
+export class ChunkStreams {
+  #debug = debug("inngest:realtime");
+  #streams = new Map<string, OpenStream>();
+  #idleTimeout: number;
+  #maxOpen: number;
+
+  constructor({
+    streamIdleTimeout = defaultIdleTimeout,
+    maxOpenStreams = defaultMaxOpen,
+  }: ChunkStreamsOptions = {}) {
+    this.#idleTimeout = streamIdleTimeout;
+    this.#maxOpen = maxOpenStreams;
+  }
+
+  /**
+   * Get an open datastream
+   */
+  get(streamId: string): ReadableStream | undefined {
+    return this.#streams.get(streamId)?.stream;
+  }
+
+  /**
+   * Start a datastream, returning `undefined` if one with the same ID is
+   * already open
+   */
+  open(streamId: string): ReadableStream | undefined {
+    if (this.#streams.has(streamId)) {
+      return;
+    }
+
+    // Maps iterate in insertion order, so the first is the oldest
+    while (this.#streams.size >= this.#maxOpen) {
+      const [oldestId] = this.#streams.keys();
+      if (oldestId === undefined) {
+        break;
+      }
+
+      this.#debug(
+        `Too many open streams; interrupting oldest stream ID "${oldestId}"`,
+      );
+      this.interrupt(oldestId, "limit");
+    }
+
+    const open = { chunksReceived: 0 } as OpenStream;
+    open.stream = new ReadableStream({
+      start: (controller) => {
+        open.controller = controller;
+      },
+      // Only called once the queue is empty, so chunks received before the
+      // interruption can still be read
+      pull: (controller) => {
+        if (open.error) {
+          controller.error(open.error);
+        }
+      },
+      cancel: () => {
+        this.#remove(streamId);
+      },
+    });
+
+    this.#streams.set(streamId, open);
+    this.#resetIdleTimer(streamId);
+
+    return open.stream;
+  }
+
+  /**
+   * Add a chunk to an open datastream, returning the stream, or `undefined` if
+   * it isn't open
+   */
+  enqueue(streamId: string, chunk: unknown): ReadableStream | undefined {
+    const open = this.#streams.get(streamId);
+    if (!open) {
+      return;
+    }
+
+    open.chunksReceived++;
+    this.#resetIdleTimer(streamId);
+
+    try {
+      open.controller.enqueue(chunk);
+    } catch (err) {
+      this.#debug(`Error enqueueing chunk to stream ${streamId}:`, err);
+    }
+
+    return open.stream;
+  }
+
+  /**
+   * Finish an open datastream, returning the stream, or `undefined` if it
+   * isn't open
+   */
+  end(streamId: string): ReadableStream | undefined {
+    const open = this.#remove(streamId);
+    if (!open) {
+      return;
+    }
+
+    try {
+      open.controller.close();
+    } catch (err) {
+      this.#debug(`Error closing stream ${streamId}:`, err);
+    }
+
+    return open.stream;
+  }
+
+  /**
+   * Fail every open datastream, as none of them will receive any more chunks
+   */
+  interruptAll(reason: StreamInterruptedReason) {
+    for (const streamId of [...this.#streams.keys()]) {
+      this.interrupt(streamId, reason);
+    }
+  }
+
+  /**
+   * Fail an open datastream once its queued chunks have been read, returning
+   * the stream, or `undefined` if it isn't open
+   */
+  interrupt(
+    streamId: string,
+    reason: StreamInterruptedReason,
+  ): ReadableStream | undefined {
+    const open = this.#remove(streamId);
+    if (!open) {
+      return;
+    }
+
+    open.error = new StreamInterruptedError(
+      streamId,
+      open.chunksReceived,
+      reason,
+    );
+
+    // Erroring a stream discards its queue, so wait for it to be read first
+    if ((open.controller.desiredSize ?? 0) > 0) {
+      open.controller.error(open.error);
+    }
+
+    return open.stream;
+  }
+
+  #resetIdleTimer(streamId: string) {
+    const open = this.#streams.get(streamId);
+    if (!open || this.#idleTimeout <= 0) {
+      return;
+    }
+
+    clearTimeout(open.idleTimer);
+    open.idleTimer = setTimeout(() => {
+      this.#debug(`Stream ID "${streamId}" timed out waiting for chunks`);
+      this.interrupt(streamId, "idle");
+    }, this.#idleTimeout);
+  }
+
+  #remove(streamId: string): OpenStream | undefined {
+    const open = this.#streams.get(streamId);
+    if (open) {
+      clearTimeout(open.idleTimer);
+      this.#streams.delete(streamId);
+    }
+
+    return open;
+  }
+
+  /**
+   * Get the number of open datastreams
+   */
+  size() {
+    return this.#streams.size;
+  }
+}
@@ -0,0 +1,121 @@
+import { describe, test, expect, vi } from "vitest";
+import { channel } from "../channel";
+import { ConnectionPool } from "./ConnectionPool";
+import { TokenSubscription } from "./TokenSubscription";
+
+const createToken = (topics: string[], channelId = "test-channel") => ({
+  channel: channel(channelId)(),
+  topics,
+  key: "test-key" as string | undefined,
+});
+
+/**
+ * Даем время на обработку отмены потоков
+ */
+const settle = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+describe("ConnectionPool", () => {
+  const acquire = (
+    pool: ConnectionPool,
+    token: ReturnType<typeof createToken>,
+    apiBaseUrl = "https://api.test.com",
+    signingKey?: string,
+  ) => {
+    return pool.acquire(
+      token,
+      apiBaseUrl,
+      signingKey,
+      (onIdle) =>
+        new TokenSubscription(token, apiBaseUrl, signingKey, undefined, {
+          onIdle,
+        }),
+    );
+  };
+
+  test("переиспользует подписку для тех же канала и топиков", () => {
+    const pool = new ConnectionPool();
+
+    const first = acquire(pool, createToken(["a", "b"]));
+    const second = acquire(pool, createToken(["b", "a"]));
+
+    expect(second).toBe(first);
+    expect(pool.size()).toBe(1);
+  });
+
+  test("создает отдельные подписки для разных ключей", () => {
+    const pool = new ConnectionPool();
+
+    const first = acquire(pool, createToken(["a"]));
+    const otherTopics = acquire(pool, createToken(["a", "b"]));
+    const otherChannel = acquire(pool, createToken(["a"], "other-channel"));
+    const otherUrl = acquire(
+      pool,
+      createToken(["a"]),
+      "https://other.test.com",
+    );
+
+    expect(new Set([first, otherTopics, otherChannel, otherUrl]).size).toBe(4);
+    expect(pool.size()).toBe(4);
+  });
+
+  test("создает отдельные подписки для разных ключей доступа", () => {
+    const pool = new ConnectionPool();
+    const apiBaseUrl = "https://api.test.com";
+
+    const first = acquire(pool, createToken(["a"]));
+    const otherKey = acquire(pool, { ...createToken(["a"]), key: "key-2" });
+    const envA = acquire(
+      pool,
+      { ...createToken(["a"]), key: undefined },
+      apiBaseUrl,
+      "signkey-a",
+    );
+    const envB = acquire(
+      pool,
+      { ...createToken(["a"]), key: undefined },
+      apiBaseUrl,
+      "signkey-b",
+    );
+    const envAAgain = acquire(
+      pool,
+      { ...createToken(["a"]), key: undefined },
+      apiBaseUrl,
+      "signkey-a",
+    );
+
+    expect(new Set([first, otherKey, envA, envB]).size).toBe(4);
+    expect(envAAgain).toBe(envA);
+  });
+
+  test("закрывает подписку после отмены последнего потока", async () => {
+    const pool = new ConnectionPool();
+    const subscription = acquire(pool, createToken(["a"]));
+    const close = vi.spyOn(subscription, "close");
+
+    const first = subscription.getJsonStream();
+    const second = acquire(pool, createToken(["a"])).getJsonStream();
+
+    await first.cancel();
+    await settle();
+    expect(close).not.toHaveBeenCalled();
+    expect(pool.size()).toBe(1);
+
+    await second.cancel();
+    await settle();
+    expect(close).toHaveBeenCalled();
+    expect(pool.size()).toBe(0);
+
+    expect(acquire(pool, createToken(["a"]))).not.toBe(subscription);
+  });
+
+  test("close() закрывает все подписки", () => {
+    const pool = new ConnectionPool();
+    const subscription = acquire(pool, createToken(["a"]));
+    const close = vi.spyOn(subscription, "close");
+
+    pool.close();
+
+    expect(close).toHaveBeenCalled();
+    expect(pool.size()).toBe(0);
+  });
+});
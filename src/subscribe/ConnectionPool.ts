@@ -0,0 +1,115 @@
+import type { Realtime } from "../types";
+import {
+  getChannelId,
+  getTokenChannels,
+  type TokenSubscription,
+} from "./TokenSubscription";
+
+/**
+ * Build a key identifying the connection a token would open, ignoring the
+ * order of channels and topics.
+ *
+ * The token's key, or the signing key used to mint one if it has none, is
+ * included so that subscriptions in different environments never share a
+ * connection.
+ */
+const getPoolKey = (
+  token: Realtime.Subscribe.AnyToken,
+  apiBaseUrl: string | undefined,
+  signingKey: string | undefined,
+): string => {
+  const channels = getTokenChannels(token)
+    .map(({ channel, topics }) => [getChannelId(channel), [...topics].sort()])
+    .sort(([a], [b]) => String(a).localeCompare(String(b)));
+
+  return JSON.stringify([
+    apiBaseUrl ?? "",
+    token.key ?? signingKey ?? "",
+    channels,
+  ]);
+};
+
+/**
+ * Shares connections between subscriptions to the same channels and topics
+ * with the same credentials.
+ *
+ * Each pooled connection is reference-counted by the streams reading from it,
+ * and is closed once the last of them is cancelled.
+ *
+ * A pooled connection keeps the options of the subscription that opened it,
+ * such as `retry`, `cursor`, `replay` and `WebSocket`. Options given when
+ * acquiring it again are ignored.
+ */
+export class ConnectionPool {
+  #subscriptions = new Map<string, TokenSubscription>();
+
+  /**
+   * Get the open subscription for the given token, or create one if there is
+   * none.
+   */
+  acquire(
+    /**
+     * Subscription token
+     */
+    token: Realtime.Subscribe.AnyToken,
+
+    /**
+     * Base URL the subscription connects to
+     */
+    apiBaseUrl: string | undefined,
+
+    /**
+     * Signing key used to mint a token if it has no key
+     */
+    signingKey: string | undefined,
+
+    /**
+     * Create a new subscription, calling `onIdle` once nothing is reading
+     * from it any more
+     */
+    create: (onIdle: () => void) => TokenSubscription,
+  ): TokenSubscription {
+    const key = getPoolKey(token, apiBaseUrl, signingKey);
+
+    const existing = this.#subscriptions.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const subscription = create(() => {
+      if (this.#subscriptions.get(key) === subscription) {
+        this.#subscriptions.delete(key);
+      }
+
+      subscription.close();
+    });
+
+    this.#subscriptions.set(key, subscription);
+
+    return subscription;
+  }
+
+  /**
+   * Close every pooled connection
+   */
+  close() {
+    const subscriptions = [...this.#subscriptions.values()];
+    this.#subscriptions.clear();
+
+    for (const subscription of subscriptions) {
+      subscription.close();
+    }
+  }
+
+  /**
+   * Get the number of open pooled connections
+   */
+  size() {
+    return this.#subscriptions.size;
+  }
+}
+
+/**
+ * Process-wide pool used when subscribing with `pool: true`
+ */
+export const connectionPool = new ConnectionPool();
@@ -0,0 +1,152 @@
+import { describe, test, expect, vi } from "vitest";
+import { z } from "zod";
+import { topic } from "../topic";
+import type { Realtime } from "../types";
+import { StreamInterruptedError } from "./errors";
+import { MessageHandler } from "./MessageHandler";
+import { StreamFanout } from "./StreamFanout";
+
+const topics = new Map<string, Realtime.Topic.Definition>([
+  ["count", topic("count").schema(z.object({ n: z.number() }))],
+  ["tokens", topic("tokens").stream(z.string())],
+  [
+    "slow",
+    topic("slow").stream(
+      z
+        .string()
+        .refine(
+          (s) => new Promise((resolve) => setTimeout(() => resolve(s !== ""))),
+        ),
+    ),
+  ],
+]);
+
+const readChunks = async (stream: ReadableStream) => {
+  const chunks: unknown[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+};
+
+const createHandler = () => {
+  const fanout = new StreamFanout<Realtime.Message.Any>();
+  const stream = fanout.createStream();
+  const handler = new MessageHandler(fanout, (channel) =>
+    channel === "test-channel" ? topics : undefined,
+  );
+
+  const readAll = async () => {
+    fanout.close();
+    const messages: any[] = [];
+    for await (const message of stream) {
+      messages.push(message);
+    }
+    return messages;
+  };
+
+  return { handler, readAll };
+};
+
+describe("MessageHandler", () => {
+  test("проверяет данные по схеме топика", async () => {
+    const { handler, readAll } = createHandler();
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await handler.handle({
+      kind: "data",
+      channel: "test-channel",
+      topic: "count",
+      data: { n: 1 },
+    });
+    await handler.handle({
+      kind: "data",
+      channel: "test-channel",
+      topic: "count",
+      data: { n: "bad" },
+    });
+    await handler.handle({
+      kind: "data",
+      channel: "other-channel",
+      topic: "count",
+      data: { n: 2 },
+    });
+
+    expect(errorSpy).toHaveBeenCalledTimes(1);
+    errorSpy.mockRestore();
+
+    const messages = await readAll();
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toMatchObject({ kind: "data", data: { n: 1 } });
+    expect(messages[0].createdAt).toBeInstanceOf(Date);
+  });
+
+  test("собирает datastream из фрагментов", async () => {
+    const { handler, readAll } = createHandler();
+    const base = { channel: "test-channel", topic: "tokens", streamId: "s1" };
+
+    await handler.handle({ ...base, kind: "datastream-start" });
+    await handler.handle({ ...base, kind: "chunk", data: "a" });
+    await handler.handle({ ...base, kind: "chunk", data: "b" });
+    await handler.handle({ ...base, kind: "datastream-end" });
+
+    const messages = await readAll();
+    expect(messages.map((msg) => msg.kind)).toEqual([
+      "datastream-start",
+      "chunk",
+      "chunk",
+      "datastream-end",
+    ]);
+
+    expect(await readChunks(messages[0].stream)).toEqual(["a", "b"]);
+  });
+
+  test("прерывает datastream с фрагментом, не прошедшим проверку", async () => {
+    const { handler, readAll } = createHandler();
+    const base = { channel: "test-channel", topic: "tokens", streamId: "s1" };
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await handler.handle({ ...base, kind: "datastream-start" });
+    await handler.handle({ ...base, kind: "chunk", data: "a" });
+    await handler.handle({ ...base, kind: "chunk", data: 1 });
+    await handler.handle({ ...base, kind: "chunk", data: "b" });
+    await handler.handle({ ...base, kind: "datastream-end" });
+
+    expect(errorSpy).toHaveBeenCalledTimes(1);
+    errorSpy.mockRestore();
+
+    const messages = await readAll();
+    expect(messages.map((msg) => msg.kind)).toEqual([
+      "datastream-start",
+      "chunk",
+    ]);
+
+    const err = await readChunks(messages[0].stream).catch(
+      (err: unknown) => err,
+    );
+    expect(err).toBeInstanceOf(StreamInterruptedError);
+    expect(err).toMatchObject({ chunksReceived: 1, reason: "invalid" });
+  });
+
+  test("сохраняет порядок фрагментов и завершения при асинхронной проверке", async () => {
+    const { handler, readAll } = createHandler();
+    const base = { channel: "test-channel", topic: "slow", streamId: "s1" };
+
+    // Handled as they arrive, without waiting for the previous one
+    await Promise.all([
+      handler.handle({ ...base, kind: "datastream-start" }),
+      handler.handle({ ...base, kind: "chunk", data: "a" }),
+      handler.handle({ ...base, kind: "chunk", data: "b" }),
+      handler.handle({ ...base, kind: "datastream-end" }),
+    ]);
+
+    const messages = await readAll();
+    expect(messages.map((msg) => msg.kind)).toEqual([
+      "datastream-start",
+      "chunk",
+      "chunk",
+      "datastream-end",
+    ]);
+    expect(await readChunks(messages[0].stream)).toEqual(["a", "b"]);
+  });
+});
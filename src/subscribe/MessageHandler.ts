@@ -0,0 +1,364 @@
+import debug from "debug";
+import { Realtime } from "../types";
+import { ChunkStreams, type ChunkStreamsOptions } from "./ChunkStreams";
+import type { StreamInterruptedReason } from "./errors";
+import type { StreamFanout } from "./StreamFanout";
+
+/**
+ * A message received from the server or a proxy, before it has been validated
+ */
+export type ReceivedMessage = {
+  kind: string;
+  channel?: string;
+  topic?: string;
+  data?: unknown;
+  streamId?: unknown;
+  runId?: string;
+  fnId?: string;
+  envId?: string;
+  createdAt?: Date;
+  cursor?: Realtime.Subscribe.Cursor;
+};
+
+/**
+ * Validates the messages of a subscription against the schemas of their
+ * topics and rebuilds datastreams from their chunks, writing the results to
+ * the subscription's streams.
+ */
+export class MessageHandler {
+  #debug = debug("inngest:realtime");
+  #fanout: StreamFanout<Realtime.Message.Any>;
+  #getTopics: (
+    channel: string,
+  ) => Map<string, Realtime.Topic.Definition> | undefined;
+  #chunkStreams: ChunkStreams;
+
+  /**
+   * The last chunk or end still being handled for each datastream
+   */
+  #pending = new Map<string, Promise<void>>();
+
+  constructor(
+    fanout: StreamFanout<Realtime.Message.Any>,
+
+    /**
+     * Get the topics being subscribed to on a channel, or `undefined` if the
+     * channel isn't being subscribed to
+     */
+    getTopics: (
+      channel: string,
+    ) => Map<string, Realtime.Topic.Definition> | undefined,
+    options: ChunkStreamsOptions = {},
+  ) {
+    this.#fanout = fanout;
+    this.#getTopics = getTopics;
+    this.#chunkStreams = new ChunkStreams(options);
+  }
+
+  /**
+   * Validate a message and deliver it to the subscription's streams
+   */
+  public async handle(msg: ReceivedMessage): Promise<void> {
+    switch (msg.kind) {
+      case "data": {
+        await this.#handleDataMessage(msg);
+        break;
+      }
+
+      case "datastream-start": {
+        this.#handleDataStreamStart(msg);
+        break;
+      }
+
+      case "datastream-end": {
+        await this.#inOrder(msg, () => this.#handleDataStreamEnd(msg));
+        break;
+      }
+
+      case "chunk": {
+        await this.#inOrder(msg, () => this.#handleChunk(msg));
+        break;
+      }
+
+      case "run":
+      case "step":
+      case "event": {
+        await this.#handleLifecycleMessage(msg);
+        break;
+      }
+
+      default: {
+        this.#debug(
+          `Received message on channel "${msg.channel}" with unhandled kind "${msg.kind}"`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Fail every open datastream, as none of them will receive any more chunks
+   */
+  public interruptAll(reason: StreamInterruptedReason) {
+    this.#chunkStreams.interruptAll(reason);
+  }
+
+  /**
+   * Handle a datastream's chunks and end one after another, so that they stay
+   * in order even when validating a chunk has to wait
+   */
+  #inOrder(
+    msg: ReceivedMessage,
+    handle: () => void | Promise<void>,
+  ): Promise<void> {
+    if (typeof msg.streamId !== "string") {
+      return Promise.resolve(handle());
+    }
+
+    const streamId = msg.streamId;
+    const prev = this.#pending.get(streamId) ?? Promise.resolve();
+    const next = prev.then(handle);
+
+    // Later messages wait for this one whether or not it succeeds
+    const settled: Promise<void> = next
+      .catch(() => {})
+      .then(() => {
+        if (this.#pending.get(streamId) === settled) {
+          this.#pending.delete(streamId);
+        }
+      });
+    this.#pending.set(streamId, settled);
+
+    return next;
+  }
+
+  async #handleDataMessage(msg: ReceivedMessage) {
+    if (!msg.channel) {
+      this.#debug(`Received message with no channel`);
+      return;
+    }
+
+    if (!msg.topic) {
+      this.#debug(`Received message on channel "${msg.channel}" with no topic`);
+      return;
+    }
+
+    const topic = this.#getTopics(msg.channel)?.get(msg.topic);
+    if (!topic) {
+      this.#debug(
+        `Received message on channel "${msg.channel}" for unknown topic "${msg.topic}"`,
+      );
+      return;
+    }
+
+    let data = msg.data;
+
+    const schema = topic.getSchema();
+    if (schema) {
+      const validateRes = await schema["~standard"].validate(data);
+      if (validateRes.issues) {
+        console.error(
+          `Received message on channel "${msg.channel}" for topic "${msg.topic}" that failed schema validation:`,
+          validateRes.issues,
+        );
+        return;
+      }
+
+      data = validateRes.value;
+    }
+
+    this.#debug(
+      `Received message on channel "${msg.channel}" for topic "${msg.topic}":`,
+      data,
+    );
+
+    this.#fanout.write({
+      channel: msg.channel,
+      topic: msg.topic,
+      data,
+      fnId: msg.fnId,
+      createdAt: msg.createdAt ?? new Date(),
+      runId: msg.runId,
+      kind: "data",
+      envId: msg.envId,
+      cursor: msg.cursor,
+    });
+  }
+
+  async #handleLifecycleMessage(msg: ReceivedMessage) {
+    const kind = msg.kind as keyof typeof Realtime.lifecycleDataSchemas;
+
+    if (!msg.channel || !this.#getTopics(msg.channel)) {
+      this.#debug(
+        `Received "${kind}" message for unknown channel "${msg.channel}"`,
+      );
+      return;
+    }
+
+    if (!msg.runId) {
+      this.#debug(
+        `Received "${kind}" message on channel "${msg.channel}" with no run ID`,
+      );
+      return;
+    }
+
+    const parseRes = await Realtime.lifecycleDataSchemas[kind].safeParseAsync(
+      msg.data,
+    );
+    if (!parseRes.success) {
+      this.#debug(
+        `Received invalid "${kind}" message on channel "${msg.channel}":`,
+        parseRes.error,
+      );
+      return;
+    }
+
+    this.#debug(
+      `Received "${kind}" message on channel "${msg.channel}" for run "${msg.runId}":`,
+      parseRes.data,
+    );
+
+    this.#fanout.write({
+      channel: msg.channel,
+      data: parseRes.data,
+      fnId: msg.fnId,
+      createdAt: msg.createdAt ?? new Date(),
+      runId: msg.runId,
+      kind,
+      envId: msg.envId,
+      cursor: msg.cursor,
+    } as Realtime.Message.Lifecycle);
+  }
+
+  #handleDataStreamStart(msg: ReceivedMessage) {
+    if (!msg.channel || !msg.topic) {
+      this.#debug(`Received datastream-start with missing channel or topic`);
+      return;
+    }
+
+    const streamId = msg.streamId;
+    if (typeof streamId !== "string" || !streamId) {
+      this.#debug(`Received datastream-start with invalid stream ID`);
+      return;
+    }
+
+    const holderStream = this.#chunkStreams.open(streamId);
+    if (!holderStream) {
+      this.#debug(
+        `Received datastream-start for stream ID "${streamId}" that already exists`,
+      );
+      return;
+    }
+
+    this.#debug(`Created stream ID "${streamId}" on channel "${msg.channel}"`);
+
+    this.#fanout.write({
+      channel: msg.channel,
+      topic: msg.topic,
+      kind: "datastream-start",
+      data: streamId,
+      streamId,
+      fnId: msg.fnId,
+      runId: msg.runId,
+      stream: holderStream,
+      cursor: msg.cursor,
+    });
+  }
+
+  #handleDataStreamEnd(msg: ReceivedMessage) {
+    if (!msg.channel || !msg.topic) {
+      this.#debug(`Received datastream-end with missing channel or topic`);
+      return;
+    }
+
+    const streamId = msg.streamId;
+    if (typeof streamId !== "string" || !streamId) {
+      this.#debug(`Received datastream-end with invalid stream ID`);
+      return;
+    }
+
+    const stream = this.#chunkStreams.end(streamId);
+    if (!stream) {
+      this.#debug(
+        `Received datastream-end for stream ID "${streamId}" that doesn't exist`,
+      );
+      return;
+    }
+
+    this.#debug(`Closed stream ID "${streamId}" on channel "${msg.channel}"`);
+
+    this.#fanout.write({
+      channel: msg.channel,
+      topic: msg.topic,
+      kind: "datastream-end",
+      data: streamId,
+      streamId,
+      fnId: msg.fnId,
+      runId: msg.runId,
+      stream,
+      cursor: msg.cursor,
+    });
+  }
+
+  async #handleChunk(msg: ReceivedMessage) {
+    if (!msg.channel || !msg.topic) {
+      this.#debug(`Received chunk with missing channel or topic`);
+      return;
+    }
+
+    const streamId = msg.streamId;
+    if (typeof streamId !== "string" || !streamId) {
+      this.#debug(`Received chunk with no stream ID`);
+      return;
+    }
+
+    if (!this.#chunkStreams.get(streamId)) {
+      this.#debug(`Received chunk for unknown stream ID "${streamId}"`);
+      return;
+    }
+
+    let data = msg.data;
+
+    const schema = this.#getTopics(msg.channel)
+      ?.get(msg.topic)
+      ?.getStreamSchema();
+    if (schema) {
+      const validateRes = await schema["~standard"].validate(data);
+      if (validateRes.issues) {
+        console.error(
+          `Received chunk on channel "${msg.channel}" for stream ID "${streamId}" that failed schema validation:`,
+          validateRes.issues,
+        );
+
+        // A stream missing a chunk is no longer complete, so fail it rather
+        // than letting it look finished
+        this.#chunkStreams.interrupt(streamId, "invalid");
+        return;
+      }
+
+      data = validateRes.value;
+    }
+
+    this.#debug(
+      `Received chunk on channel "${msg.channel}" for stream ID "${streamId}":`,
+      data,
+    );
+
+    // The stream may have been interrupted while validating
+    const stream = this.#chunkStreams.enqueue(streamId, data);
+    if (!stream) {
+      return;
+    }
+
+    this.#fanout.write({
+      channel: msg.channel,
+      topic: msg.topic,
+      kind: "chunk",
+      data,
+      streamId,
+      fnId: msg.fnId,
+      runId: msg.runId,
+      stream,
+      cursor: msg.cursor,
+    });
+  }
+}
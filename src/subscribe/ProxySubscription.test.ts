@@ -0,0 +1,282 @@
+import { describe, test, expect, vi } from "vitest";
+import { z } from "zod";
+import { channel } from "../channel";
+import { topic } from "../topic";
+import { ProxySubscription } from "./ProxySubscription";
+
+const testChannel = channel("test-channel")
+  .addTopic(topic("count").schema(z.object({ n: z.number() })))
+  .addTopic(topic("tokens").stream(z.string()));
+
+const token = { channel: testChannel(), topics: ["count", "tokens"] };
+
+/**
+ * Create a response body that we can push chunks of text into
+ */
+const createBody = () => {
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  const body = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c;
+    },
+  });
+  const encoder = new TextEncoder();
+
+  return {
+    body,
+    push: (text: string) => controller.enqueue(encoder.encode(text)),
+    end: () => controller.close(),
+  };
+};
+
+const sseEvent = (message: Record<string, unknown>) =>
+  `event: ${message.topic ?? message.kind}\ndata: ${JSON.stringify({
+    channel: "test-channel",
+    ...message,
+  })}\n\n`;
+
+const createSubscription = (
+  body: ReadableStream<Uint8Array>,
+  contentType = "text/event-stream; charset=utf-8",
+) => {
+  const fetch = vi
+    .fn()
+    .mockResolvedValue(
+      new Response(body, { headers: { "Content-Type": contentType } }),
+    );
+
+  return new ProxySubscription(token, {
+    url: "https://app.test/realtime",
+    fetch,
+    // Close once the response ends rather than requesting it again
+    retry: { maxAttempts: 0 },
+  });
+};
+
+const readAll = async (stream: ReadableStream) => {
+  const messages: any[] = [];
+  for await (const message of stream) {
+    messages.push(message);
+  }
+  return messages;
+};
+
+describe("ProxySubscription", () => {
+  test("разбирает события SSE и проверяет схемы топиков", async () => {
+    const { body, push, end } = createBody();
+    const subscription = createSubscription(body);
+    const stream = subscription.getJsonStream({ kinds: ["data", "run"] });
+    await subscription.connect();
+
+    push("retry: 1000\n\n: keepalive\n\n");
+    push(
+      sseEvent({
+        kind: "data",
+        topic: "count",
+        data: { n: 1 },
+        createdAt: "2024-01-01T00:00:00.000Z",
+        cursor: { createdAt: "2024-01-01T00:00:00.000Z", seq: 1 },
+      }),
+    );
+    push(sseEvent({ kind: "data", topic: "count", data: { n: "bad" } }));
+    push(sseEvent({ kind: "data", topic: "unknown", data: {} }));
+    push(
+      sseEvent({
+        kind: "run",
+        runId: "run-1",
+        data: { status: "started" },
+        createdAt: "2024-01-01T00:00:01.000Z",
+      }),
+    );
+    end();
+
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const messages = await readAll(stream);
+    errorSpy.mockRestore();
+
+    expect(messages).toHaveLength(2);
+    expect(messages[0]).toMatchObject({ topic: "count", data: { n: 1 } });
+    expect(messages[0].createdAt).toEqual(new Date("2024-01-01T00:00:00.000Z"));
+    expect(messages[0].cursor).toEqual({
+      createdAt: new Date("2024-01-01T00:00:00.000Z"),
+      seq: 1,
+    });
+    expect(messages[1]).toMatchObject({
+      kind: "run",
+      runId: "run-1",
+      data: { status: "started" },
+    });
+  });
+
+  test("собирает datastream в поток, проверяя фрагменты", async () => {
+    const { body, push, end } = createBody();
+    const subscription = createSubscription(body, "application/x-ndjson");
+    const stream = subscription.getJsonStream({ kinds: ["datastream-start"] });
+    await subscription.connect();
+
+    const line = (message: Record<string, unknown>) =>
+      `${JSON.stringify({ channel: "test-channel", topic: "tokens", ...message })}\n`;
+
+    push(line({ kind: "datastream-start", data: "s1", streamId: "s1" }));
+    push(line({ kind: "chunk", data: "a", streamId: "s1" }));
+    push(line({ kind: "chunk", data: 1, streamId: "s1" }));
+    push(line({ kind: "chunk", data: "b", streamId: "s1" }));
+    push(line({ kind: "datastream-end", data: "s1", streamId: "s1" }));
+    end();
+
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const [start] = await readAll(stream);
+    expect(start.stream).toBeInstanceOf(ReadableStream);
+
+    const reader = start.stream.getReader();
+    await expect(reader.read()).resolves.toEqual({ done: false, value: "a" });
+    await expect(reader.read()).rejects.toMatchObject({
+      name: "StreamInterruptedError",
+      streamId: "s1",
+      chunksReceived: 1,
+      reason: "invalid",
+    });
+    expect(errorSpy).toHaveBeenCalledTimes(1);
+    errorSpy.mockRestore();
+  });
+
+  test("прерывает datastream с ошибкой, если ответ закончился раньше", async () => {
+    const { body, push, end } = createBody();
+    const subscription = createSubscription(body, "application/x-ndjson");
+    const stream = subscription.getJsonStream({ kinds: ["datastream-start"] });
+    await subscription.connect();
+
+    const line = (message: Record<string, unknown>) =>
+      `${JSON.stringify({ channel: "test-channel", topic: "tokens", ...message })}\n`;
+
+    push(line({ kind: "datastream-start", data: "s1", streamId: "s1" }));
+    push(line({ kind: "chunk", data: "a", streamId: "s1" }));
+    end();
+
+    const [start] = await readAll(stream);
+    await expect(readAll(start.stream)).rejects.toMatchObject({
+      name: "StreamInterruptedError",
+      streamId: "s1",
+      chunksReceived: 1,
+      reason: "disconnected",
+    });
+  });
+
+  test("пропускает сообщения неверной формы", async () => {
+    const { body, push, end } = createBody();
+    const subscription = createSubscription(body, "application/x-ndjson");
+    const stream = subscription.getJsonStream();
+    await subscription.connect();
+
+    push(`${JSON.stringify({ kind: "data", channel: 1, topic: "count" })}\n`);
+    push(
+      `${JSON.stringify({
+        kind: "data",
+        channel: "test-channel",
+        topic: "count",
+        data: { n: 1 },
+        createdAt: "not a date",
+      })}\n`,
+    );
+    push(
+      `${JSON.stringify({
+        kind: "data",
+        channel: "test-channel",
+        topic: "count",
+        data: { n: 2 },
+      })}\n`,
+    );
+    end();
+
+    const messages = await readAll(stream);
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toMatchObject({ data: { n: 2 } });
+  });
+
+  test("переподключается с Last-Event-ID после окончания ответа", async () => {
+    const first = createBody();
+    const second = createBody();
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(
+        new Response(first.body, {
+          headers: { "Content-Type": "text/event-stream" },
+        }),
+      )
+      .mockResolvedValueOnce(
+        new Response(second.body, {
+          headers: { "Content-Type": "text/event-stream" },
+        }),
+      );
+
+    const subscription = new ProxySubscription(token, {
+      url: "https://app.test/realtime",
+      headers: { Authorization: "Bearer test" },
+      fetch,
+      retry: { maxAttempts: 1, initialDelay: 1, jitter: "none" },
+    });
+    const stream = subscription.getJsonStream();
+    await subscription.connect();
+
+    first.push(
+      sseEvent({
+        kind: "data",
+        topic: "count",
+        data: { n: 1 },
+        cursor: { createdAt: "2024-01-01T00:00:00.000Z", seq: 1 },
+      }),
+    );
+    first.end();
+
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(2));
+    const headers = new Headers(fetch.mock.calls[1]![1].headers);
+    expect(headers.get("Last-Event-ID")).toBe("1704067200000:1");
+    expect(headers.get("Authorization")).toBe("Bearer test");
+
+    second.push(sseEvent({ kind: "data", topic: "count", data: { n: 2 } }));
+
+    const reader = stream.getReader();
+    await expect(reader.read()).resolves.toMatchObject({
+      value: { data: { n: 1 } },
+    });
+    await expect(reader.read()).resolves.toMatchObject({
+      value: { data: { n: 2 } },
+    });
+
+    subscription.close();
+    await expect(reader.read()).resolves.toMatchObject({ done: true });
+  });
+
+  test("выбрасывает ошибку при неуспешном ответе", async () => {
+    const subscription = new ProxySubscription(token, {
+      url: "https://app.test/realtime",
+      fetch: vi.fn().mockResolvedValue(new Response(null, { status: 401 })),
+    });
+
+    await expect(subscription.connect()).rejects.toThrow(
+      "Failed to connect to proxied subscription: 401",
+    );
+  });
+
+  test("закрывается при отмене signal", async () => {
+    const { body } = createBody();
+    const controller = new AbortController();
+    let requestSignal: AbortSignal | undefined;
+
+    const subscription = new ProxySubscription(token, {
+      url: "https://app.test/realtime",
+      signal: controller.signal,
+      fetch: vi.fn((_url: string, init: RequestInit) => {
+        requestSignal = init.signal ?? undefined;
+        return Promise.resolve(new Response(body));
+      }) as unknown as typeof fetch,
+    });
+    const stream = subscription.getJsonStream();
+    await subscription.connect();
+
+    controller.abort();
+
+    expect(requestSignal?.aborted).toBe(true);
+    expect(await readAll(stream)).toEqual([]);
+  });
+});
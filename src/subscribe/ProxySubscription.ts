@@ -0,0 +1,410 @@
+import debug from "debug";
+import { z } from "zod";
+import { topic } from "../topic";
+import { Realtime } from "../types";
+import type { ChunkStreamsOptions } from "./ChunkStreams";
+import { toEventId } from "./cursor";
+import type { StreamInterruptedReason } from "./errors";
+import { MessageHandler } from "./MessageHandler";
+import { getRetryDelay, resolveRetryPolicy } from "./retry";
+import { readEventStream } from "./SseSocket";
+import { StreamFanout } from "./StreamFanout";
+import {
+  getChannelId,
+  getMessageFilter,
+  getTokenChannels,
+} from "./TokenSubscription";
+
+/**
+ * Options for a {@link ProxySubscription}
+ */
+export interface ProxySubscriptionOptions extends ChunkStreamsOptions {
+  /**
+   * URL of an endpoint that streams a subscription's messages, such as one
+   * returning `toSSEResponse()` or `toNdjsonResponse()`
+   */
+  url: string | URL;
+
+  /**
+   * Format of the endpoint's response. Defaults to Server-Sent Events if the
+   * response's `Content-Type` is `text/event-stream`, or newline-delimited
+   * JSON otherwise.
+   */
+  format?: "sse" | "ndjson";
+
+  /**
+   * Extra headers to send with the request, such as for authentication
+   */
+  headers?: HeadersInit;
+
+  /**
+   * `fetch` implementation to use. Defaults to the global `fetch`.
+   */
+  fetch?: typeof fetch;
+
+  /**
+   * Close the subscription when this is aborted
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Policy used to request the endpoint again after its response ends or
+   * fails. The cursor of the last message received is sent as the
+   * `Last-Event-ID` header, so that the endpoint can resume from it with
+   * `parseEventId()`.
+   */
+  retry?: Realtime.Subscribe.RetryPolicy;
+}
+
+/**
+ * A message as sent by `toSSEResponse()` or `toNdjsonResponse()`
+ */
+const proxiedMessageSchema = z.object({
+  kind: z.string(),
+  channel: z.string(),
+  topic: z.string().optional(),
+  data: z.unknown(),
+  streamId: z.unknown(),
+  runId: z.string().optional(),
+  fnId: z.string().optional(),
+  envId: z.string().optional(),
+  createdAt: z.coerce.date().optional(),
+  cursor: z
+    .object({
+      createdAt: z.coerce.date(),
+      seq: z.number().optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Consumes the messages of a subscription that's proxied through another
+ * server, so that signing keys never have to reach the browser.
+ *
+ * Messages are validated against the token's topic schemas again, and
+ * datastreams are rebuilt into `ReadableStream`s, as they would be if
+ * subscribing directly.
+ */
+export class ProxySubscription {
+  #debug = debug("inngest:realtime");
+  #fanout: StreamFanout<Realtime.Message.Any>;
+  #channels = new Map<string, Map<string, Realtime.Topic.Definition>>();
+  #options: ProxySubscriptionOptions;
+  #abortController = new AbortController();
+  #closed = false;
+  #reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+  #onAbort = () => this.close();
+  #messages: MessageHandler;
+  #retryPolicy: Required<Realtime.Subscribe.RetryPolicy>;
+  #reconnectAttempts = 0;
+  #lastReconnectDelay: number | undefined;
+  #reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+  /**
+   * Cursor of the last message received, sent as `Last-Event-ID` when
+   * requesting the endpoint again
+   */
+  #lastEventId: string | undefined;
+
+  constructor(
+    /**
+     * Token describing the channels and topics the endpoint streams, used to
+     * validate its messages. It doesn't need a key.
+     */
+    token: Realtime.Subscribe.AnyToken,
+    options: ProxySubscriptionOptions & {
+      /**
+       * Called once every stream reading from this subscription has been
+       * closed or cancelled.
+       */
+      onIdle?: () => void;
+    },
+  ) {
+    this.#fanout = new StreamFanout<Realtime.Message.Any>(options.onIdle);
+    this.#options = options;
+    this.#retryPolicy = resolveRetryPolicy(options.retry);
+    this.#messages = new MessageHandler(
+      this.#fanout,
+      (channel) => this.#channels.get(channel),
+      options,
+    );
+
+    for (const { channel, topics } of getTokenChannels(token)) {
+      const channelTopics =
+        this.#channels.get(getChannelId(channel)) ??
+        new Map<string, Realtime.Topic.Definition>();
+
+      for (const name of topics) {
+        channelTopics.set(
+          name,
+          (typeof channel === "string" ? undefined : channel.topics[name]) ??
+            topic(name),
+        );
+      }
+
+      this.#channels.set(getChannelId(channel), channelTopics);
+    }
+  }
+
+  /**
+   * Request the endpoint, resolving once it has responded and its messages
+   * are being read.
+   */
+  public async connect(): Promise<void> {
+    const { signal } = this.#options;
+
+    signal?.throwIfAborted();
+    signal?.addEventListener("abort", this.#onAbort, { once: true });
+
+    try {
+      await this.#request();
+    } catch (err) {
+      this.close();
+      throw err;
+    }
+  }
+
+  /**
+   * Request the endpoint and start reading its messages, resuming after the
+   * last message received if there was one.
+   */
+  async #request(): Promise<void> {
+    const { url, headers, fetch: fetchFn = fetch } = this.#options;
+
+    const requestHeaders = new Headers(headers);
+    if (this.#lastEventId) {
+      requestHeaders.set("Last-Event-ID", this.#lastEventId);
+    }
+
+    const res = await fetchFn(url, {
+      headers: requestHeaders,
+      signal: this.#abortController.signal,
+    });
+
+    if (!res.ok || !res.body) {
+      res.body?.cancel().catch(() => {});
+      throw new Error(
+        `Failed to connect to proxied subscription: ${res.status}`,
+      );
+    }
+
+    const format =
+      this.#options.format ??
+      (res.headers.get("Content-Type")?.startsWith("text/event-stream")
+        ? "sse"
+        : "ndjson");
+
+    this.#reader = res.body.getReader();
+    void this.#read(this.#reader, format);
+  }
+
+  async #read(
+    reader: ReadableStreamDefaultReader<Uint8Array>,
+    format: "sse" | "ndjson",
+  ) {
+    let closeInfo: Realtime.Subscribe.CloseInfo = {
+      code: 1000,
+      reason: "Response ended",
+      wasClean: true,
+    };
+
+    try {
+      if (format === "sse") {
+        await readEventStream(
+          reader,
+          ({ data }) => this.#handleLine(data),
+          () => !this.#closed,
+        );
+      } else {
+        await this.#readLines(reader);
+      }
+    } catch (err) {
+      this.#debug("Proxied subscription failed:", err);
+      closeInfo = {
+        code: 1006,
+        reason: err instanceof Error ? err.message : String(err),
+        wasClean: false,
+      };
+    }
+
+    if (this.#closed) {
+      return;
+    }
+
+    // The rest of any open datastreams won't be sent in a new response, so
+    // fail them rather than letting them look finished
+    this.#messages.interruptAll("disconnected");
+    this.#scheduleReconnect(closeInfo);
+  }
+
+  /**
+   * Request the endpoint again according to the retry policy, or close the
+   * subscription if the policy says we should stop.
+   */
+  #scheduleReconnect(closeInfo: Realtime.Subscribe.CloseInfo) {
+    if (this.#closed) {
+      return;
+    }
+
+    const { maxAttempts, shouldRetry } = this.#retryPolicy;
+    const attempt = this.#reconnectAttempts + 1;
+
+    let retry = attempt <= maxAttempts;
+    if (retry) {
+      try {
+        retry = shouldRetry(closeInfo, attempt);
+      } catch (err) {
+        this.#debug("Error in shouldRetry:", err);
+        retry = false;
+      }
+    }
+
+    if (!retry) {
+      this.#debug("Not reconnecting to proxied subscription, closing streams");
+      this.#close("disconnected");
+      return;
+    }
+
+    this.#reconnectAttempts = attempt;
+    const delay = getRetryDelay(
+      this.#retryPolicy,
+      attempt,
+      this.#lastReconnectDelay,
+    );
+    this.#lastReconnectDelay = delay;
+
+    this.#debug(
+      `Reconnecting to proxied subscription ${attempt}/${maxAttempts} in ${Math.round(delay)}ms...`,
+    );
+
+    this.#reconnectTimer = setTimeout(() => {
+      this.#reconnectTimer = undefined;
+
+      this.#request().catch((err) => {
+        this.#debug("Reconnection to proxied subscription failed:", err);
+        this.#scheduleReconnect({
+          code: 1006,
+          reason: err instanceof Error ? err.message : String(err),
+          wasClean: false,
+        });
+      });
+    }, delay);
+  }
+
+  async #readLines(reader: ReadableStreamDefaultReader<Uint8Array>) {
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done || this.#closed) {
+        return;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        if (line.trim()) {
+          await this.#handleLine(line);
+        }
+      }
+    }
+  }
+
+  async #handleLine(line: string) {
+    let json: unknown;
+    try {
+      json = JSON.parse(line);
+    } catch (err) {
+      this.#debug("Received invalid message from proxied subscription:", err);
+      return;
+    }
+
+    const parseRes = proxiedMessageSchema.safeParse(json);
+    if (!parseRes.success) {
+      this.#debug(
+        "Received invalid message from proxied subscription:",
+        parseRes.error,
+      );
+      return;
+    }
+
+    const msg = parseRes.data;
+    if (!this.#channels.has(msg.channel)) {
+      this.#debug(`Received message for unknown channel "${msg.channel}"`);
+      return;
+    }
+
+    // Messages are arriving again, so any later drop starts a fresh set of
+    // attempts
+    this.#reconnectAttempts = 0;
+    this.#lastReconnectDelay = undefined;
+
+    if (msg.cursor) {
+      this.#lastEventId = toEventId(msg.cursor);
+    }
+
+    await this.#messages.handle(msg);
+  }
+
+  /**
+   * Get a new readable stream from the subscription that delivers JSON chunks
+   */
+  public getJsonStream({
+    topics,
+    runId,
+    kinds,
+    filter,
+    ...options
+  }: Realtime.Subscribe.JsonStreamOptions = {}) {
+    return this.#fanout.createStream({
+      ...options,
+      filter: getMessageFilter({ topics, runId, kinds, filter }),
+    });
+  }
+
+  /**
+   * Close a single stream created from this subscription, even if it is
+   * locked to a reader
+   */
+  public closeStream(stream: ReadableStream) {
+    this.#fanout.closeStream(stream);
+  }
+
+  /**
+   * Stop reading from the endpoint and end every stream created from this
+   * subscription
+   */
+  public close() {
+    this.#close("closed");
+  }
+
+  #close(reason: StreamInterruptedReason) {
+    if (this.#closed) {
+      return;
+    }
+
+    this.#debug("Closing proxied subscription...");
+    this.#closed = true;
+    this.#options.signal?.removeEventListener("abort", this.#onAbort);
+    this.#abortController.abort();
+
+    if (this.#reconnectTimer) {
+      clearTimeout(this.#reconnectTimer);
+      this.#reconnectTimer = undefined;
+    }
+
+    // Cancelling the body also tells the endpoint we've gone, even if the
+    // request can't be aborted
+    this.#reader?.cancel().catch(() => {});
+
+    // The endpoint won't send the rest of any open datastreams now, so fail
+    // them rather than letting them look finished
+    this.#messages.interruptAll(reason);
+
+    this.#fanout.close();
+  }
+}
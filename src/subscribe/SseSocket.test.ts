@@ -0,0 +1,136 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { SseSocket } from "./SseSocket";
+
+/**
+ * Create a response body that we can push chunks of text into
+ */
+const createBody = () => {
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  const body = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c;
+    },
+  });
+  const encoder = new TextEncoder();
+
+  return {
+    body,
+    push: (text: string) => controller.enqueue(encoder.encode(text)),
+    end: () => controller.close(),
+  };
+};
+
+const flush = async () => {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+};
+
+describe("SseSocket", () => {
+  const originalFetch = global.fetch;
+  const url = new URL("https://api.test.com/v1/realtime/connect?token=abc");
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test("разбирает события в сообщения", async () => {
+    const { body, push } = createBody();
+    global.fetch = vi.fn().mockResolvedValue({ ok: true, status: 200, body });
+
+    const socket = new SseSocket(url);
+    const onopen = vi.fn();
+    const onmessage = vi.fn();
+    socket.onopen = onopen;
+    socket.onmessage = onmessage;
+
+    await flush();
+    expect(onopen).toHaveBeenCalled();
+    expect(socket.readyState).toBe(1);
+
+    push(': keepalive\n\nid: 1\ndata: {"a":\ndata: 1}\n\n');
+    push("id: 2\r\ndata: second\r");
+    push("\n\r\n");
+    await flush();
+
+    expect(onmessage.mock.calls).toEqual([
+      [{ data: '{"a":\n1}', lastEventId: "1" }],
+      [{ data: "second", lastEventId: "2" }],
+    ]);
+
+    socket.close();
+  });
+
+  test("передает Last-Event-ID", async () => {
+    const { body } = createBody();
+    global.fetch = vi.fn().mockResolvedValue({ ok: true, status: 200, body });
+
+    const socket = new SseSocket(url, "42");
+    await flush();
+
+    expect(global.fetch).toHaveBeenCalledWith(
+      url,
+      expect.objectContaining({
+        headers: { Accept: "text/event-stream", "Last-Event-ID": "42" },
+      }),
+    );
+
+    socket.close();
+  });
+
+  test("закрывается с кодом 4401 при отказе в авторизации", async () => {
+    global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 401 });
+
+    const socket = new SseSocket(url);
+    const onclose = vi.fn();
+    socket.onclose = onclose;
+    await flush();
+
+    expect(socket.readyState).toBe(3);
+    expect(onclose).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 4401, wasClean: false }),
+    );
+  });
+
+  test("считает завершение потока обрывом соединения", async () => {
+    const { body, end } = createBody();
+    global.fetch = vi.fn().mockResolvedValue({ ok: true, status: 200, body });
+
+    const socket = new SseSocket(url);
+    const onclose = vi.fn();
+    socket.onclose = onclose;
+    await flush();
+
+    end();
+    await flush();
+
+    expect(onclose).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 1006, wasClean: false }),
+    );
+  });
+
+  test("close() прерывает запрос", async () => {
+    let signal: AbortSignal | undefined;
+    global.fetch = vi.fn((_url: URL, init: RequestInit) => {
+      signal = init.signal ?? undefined;
+      return new Promise<Response>(() => {});
+    }) as unknown as typeof fetch;
+
+    const socket = new SseSocket(url);
+    const onclose = vi.fn();
+    socket.onclose = onclose;
+
+    socket.close();
+
+    expect(signal?.aborted).toBe(true);
+    expect(onclose).toHaveBeenCalledWith({
+      code: 1000,
+      reason: "",
+      wasClean: true,
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import debug from "debug";
+import type { Realtime } from "../types";
+
+/**
+ * Close codes used when the server rejects our token, matching those a
+ * WebSocket connection would close with.
+ */
+const authStatusCloseCodes: Record<number, number> = {
+  401: 4401,
+  403: 4403,
+};
+
+/**
+ * A single event read from an event stream
+ */
+export interface ServerSentEvent {
+  /**
+   * The event's name, or `"message"` if it wasn't given one
+   */
+  event: string;
+  data: string;
+  lastEventId: string;
+}
+
+/**
+ * Parse an event stream, calling `onEvent` for each event until the stream
+ * ends or `isActive` returns `false`.
+ *
+ * See https://html.spec.whatwg.org/multipage/server-sent-events.html
+ */
+export const readEventStream = async (
+  /**
+   * Reader of the event stream's body
+   */
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+
+  /**
+   * Called with each event, waiting for it before reading the next
+   */
+  onEvent: (event: ServerSentEvent) => void | Promise<void>,
+
+  /**
+   * Checked after each read, stopping once it returns `false`
+   */
+  isActive: () => boolean = () => true,
+) => {
+  const decoder = new TextDecoder();
+
+  let buffer = "";
+  let event = "";
+  let data: string[] = [];
+  let lastEventId = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done || !isActive()) {
+      return;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Keep any incomplete line, including a `\r` that may be followed by a
+    // `\n` in the next chunk, for next time
+    const lines = buffer.split(/\r\n|\r(?!$)|\n/);
+    buffer = lines.pop() ?? "";
+
+    for (const line of lines) {
+      if (!line) {
+        if (data.length) {
+          await onEvent({
+            event: event || "message",
+            data: data.join("\n"),
+            lastEventId,
+          });
+        }
+
+        event = "";
+        data = [];
+        continue;
+      }
+
+      // Comments, such as keepalives
+      if (line.startsWith(":")) {
+        continue;
+      }
+
+      const separator = line.indexOf(":");
+      const field = separator === -1 ? line : line.slice(0, separator);
+      let fieldValue = separator === -1 ? "" : line.slice(separator + 1);
+      if (fieldValue.startsWith(" ")) {
+        fieldValue = fieldValue.slice(1);
+      }
+
+      if (field === "data") {
+        data.push(fieldValue);
+      } else if (field === "event") {
+        event = fieldValue;
+      } else if (field === "id" && !fieldValue.includes("\0")) {
+        lastEventId = fieldValue;
+      }
+    }
+  }
+};
+
+/**
+ * Consumes a subscription's messages over Server-Sent Events, exposing the
+ * same interface as a `WebSocket` so that it can be used in its place when
+ * WebSocket upgrades are blocked.
+ *
+ * Server-Sent Events only flow from the server to us, so frames passed to
+ * `send()` are dropped.
+ */
+export class SseSocket
+  implements Realtime.Subscribe.WebSocketConstructor.Instance
+{
+  #debug = debug("inngest:realtime");
+  #abortController = new AbortController();
+
+  readyState = 0;
+  onopen: ((event: unknown) => void) | null = null;
+  onmessage: ((event: { data: string; lastEventId: string }) => void) | null =
+    null;
+  onerror: ((event: unknown) => void) | null = null;
+  onclose: ((event: Realtime.Subscribe.CloseInfo) => void) | null = null;
+
+  constructor(
+    /**
+     * URL of the event stream
+     */
+    url: URL,
+
+    /**
+     * ID of the last event received, so that the server can replay anything
+     * we missed
+     */
+    lastEventId?: string,
+  ) {
+    void this.#start(url, lastEventId);
+  }
+
+  async #start(url: URL, lastEventId: string | undefined) {
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        headers: {
+          Accept: "text/event-stream",
+          ...(lastEventId ? { "Last-Event-ID": lastEventId } : {}),
+        },
+        signal: this.#abortController.signal,
+      });
+    } catch (err) {
+      this.#fail(err);
+      return;
+    }
+
+    if (!res.ok || !res.body) {
+      this.#fail(
+        new Error(`Failed to open event stream: ${res.status}`),
+        authStatusCloseCodes[res.status],
+      );
+      return;
+    }
+
+    if (this.readyState !== 0) {
+      return;
+    }
+
+    this.readyState = 1;
+    this.onopen?.({});
+
+    try {
+      await readEventStream(
+        res.body.getReader(),
+        ({ data, lastEventId }) => this.onmessage?.({ data, lastEventId }),
+        () => this.readyState === 1,
+      );
+    } catch (err) {
+      this.#fail(err);
+      return;
+    }
+
+    this.#fail(new Error("Event stream ended"));
+  }
+
+  /**
+   * Close the stream because of an error or the server ending it, which we
+   * treat like a dropped connection.
+   */
+  #fail(err: unknown, code = 1006) {
+    if (this.readyState === 3) {
+      return;
+    }
+
+    this.#debug("Event stream failed:", err);
+    this.readyState = 3;
+    this.#abortController.abort();
+    this.onerror?.(err);
+    this.onclose?.({
+      code,
+      reason: err instanceof Error ? err.message : String(err),
+      wasClean: false,
+    });
+  }
+
+  send(data: string) {
+    this.#debug("Can't send frames over an event stream; dropping:", data);
+  }
+
+  close(code = 1000, reason = "") {
+    if (this.readyState === 3) {
+      return;
+    }
+
+    this.readyState = 3;
+    this.#abortController.abort();
+    this.onclose?.({ code, reason, wasClean: true });
+  }
+}
@@ -181,6 +181,51 @@ describe("StreamFanout", () => {
 
       expect(() => fanout.write("test")).not.toThrow();
     });
+
+    test("closeStream() закрывает заблокированный поток", async () => {
+      const onEmpty = vi.fn();
+      const fanout = new StreamFanout<string>(onEmpty);
+      const stream = fanout.createStream();
+      const other = fanout.createStream();
+      const reader = stream.getReader();
+
+      fanout.closeStream(stream);
+      fanout.write("test");
+
+      expect(await reader.read()).toEqual({ done: true, value: undefined });
+      expect(fanout.size()).toBe(1);
+      expect(onEmpty).not.toHaveBeenCalled();
+
+      fanout.closeStream(other);
+      expect(onEmpty).toHaveBeenCalledTimes(1);
+    });
+
+    test("вызывает onEmpty после отмены последнего потока", async () => {
+      const onEmpty = vi.fn();
+      const fanout = new StreamFanout<string>(onEmpty);
+      const stream1 = fanout.createStream();
+      const stream2 = fanout.createStream();
+
+      await stream1.cancel();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(onEmpty).not.toHaveBeenCalled();
+
+      await stream2.cancel();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(onEmpty).toHaveBeenCalledTimes(1);
+    });
+
+    test("вызывает onEmpty при close() только если были потоки", () => {
+      const onEmpty = vi.fn();
+      const fanout = new StreamFanout<string>(onEmpty);
+
+      fanout.close();
+      expect(onEmpty).not.toHaveBeenCalled();
+
+      fanout.createStream();
+      fanout.close();
+      expect(onEmpty).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe("обработка ошибок", () => {
@@ -221,6 +266,184 @@ describe("StreamFanout", () => {
     });
   });
 
+  describe("ограничение буфера", () => {
+    const readAll = async (stream: ReadableStream<number>) => {
+      const values: number[] = [];
+      for await (const value of stream) {
+        values.push(value);
+      }
+      return values;
+    };
+
+    test("drop-oldest отбрасывает самые старые сообщения", async () => {
+      const fanout = new StreamFanout<number>();
+      const stream = fanout.createStream({ highWaterMark: 2 });
+
+      [1, 2, 3, 4].forEach((n) => fanout.write(n));
+      fanout.close();
+
+      expect(await readAll(stream)).toEqual([3, 4]);
+      expect(fanout.getDroppedCount(stream)).toBe(2);
+    });
+
+    test("drop-newest отбрасывает новые сообщения", async () => {
+      const fanout = new StreamFanout<number>();
+      const stream = fanout.createStream({
+        highWaterMark: 2,
+        overflow: "drop-newest",
+      });
+
+      [1, 2, 3, 4].forEach((n) => fanout.write(n));
+      fanout.close();
+
+      expect(await readAll(stream)).toEqual([1, 2]);
+      expect(fanout.getDroppedCount(stream)).toBe(2);
+    });
+
+    test("error завершает поток с ошибкой", async () => {
+      const fanout = new StreamFanout<number>();
+      const stream = fanout.createStream({
+        highWaterMark: 1,
+        overflow: "error",
+      });
+
+      fanout.write(1);
+      fanout.write(2);
+
+      await expect(readAll(stream)).rejects.toThrow("fell behind");
+      expect(fanout.size()).toBe(0);
+    });
+
+    test("close закрывает поток после чтения буфера", async () => {
+      const fanout = new StreamFanout<number>();
+      const stream = fanout.createStream({
+        highWaterMark: 1,
+        overflow: "close",
+      });
+
+      fanout.write(1);
+      fanout.write(2);
+      fanout.write(3);
+
+      expect(fanout.size()).toBe(0);
+      expect(await readAll(stream)).toEqual([1]);
+      expect(fanout.getDroppedCount(stream)).toBe(1);
+    });
+
+    test("медленный поток не влияет на остальные", async () => {
+      const fanout = new StreamFanout<number>();
+      const slow = fanout.createStream({
+        highWaterMark: 1,
+        overflow: "drop-newest",
+      });
+      const fast = fanout.createStream();
+      const reader = fast.getReader();
+
+      fanout.write(1);
+      expect(await reader.read()).toEqual({ done: false, value: 1 });
+      fanout.write(2);
+      expect(await reader.read()).toEqual({ done: false, value: 2 });
+
+      expect(fanout.getDroppedCount(slow)).toBe(1);
+      expect(fanout.getDroppedCount(fast)).toBe(0);
+    });
+
+    test("не считает сообщения, отданные ожидающему чтению", async () => {
+      const fanout = new StreamFanout<number>();
+      const stream = fanout.createStream({
+        highWaterMark: 0,
+        overflow: "drop-newest",
+      });
+      const reader = stream.getReader();
+
+      const read = reader.read();
+      await Promise.resolve();
+      fanout.write(1);
+      fanout.write(2);
+
+      expect(await read).toEqual({ done: false, value: 1 });
+      expect(fanout.getDroppedCount(stream)).toBe(1);
+    });
+  });
+
+  describe("повтор сообщений", () => {
+    const read = async (stream: ReadableStream<unknown>, count: number) => {
+      const reader = stream.getReader();
+      const values: unknown[] = [];
+      for (let i = 0; i < count; i++) {
+        values.push((await reader.read()).value);
+      }
+      return values;
+    };
+
+    test("по умолчанию новые потоки не получают прошлые сообщения", async () => {
+      const fanout = new StreamFanout<number>();
+      fanout.write(1);
+
+      const stream = fanout.createStream();
+      fanout.write(2);
+
+      expect(await read(stream, 1)).toEqual([2]);
+    });
+
+    test("новые потоки сначала получают последние N сообщений", async () => {
+      const fanout = new StreamFanout<number>(undefined, { size: 2 });
+      [1, 2, 3].forEach((n) => fanout.write(n));
+
+      const stream = fanout.createStream();
+      fanout.write(4);
+
+      expect(await read(stream, 3)).toEqual([2, 3, 4]);
+    });
+
+    test("помечает повторенные сообщения", async () => {
+      const fanout = new StreamFanout<{ n: number; replayed?: boolean }>(
+        undefined,
+        { mark: (chunk) => ({ ...chunk, replayed: true }) },
+      );
+      fanout.write({ n: 1 });
+
+      const stream = fanout.createStream();
+      fanout.write({ n: 2 });
+
+      expect(await read(stream, 2)).toEqual([
+        { n: 1, replayed: true },
+        { n: 2 },
+      ]);
+    });
+
+    test("забывает сообщения старше maxAge", async () => {
+      vi.useFakeTimers();
+      try {
+        const fanout = new StreamFanout<number>(undefined, { maxAge: 1_000 });
+        fanout.write(1);
+        vi.advanceTimersByTime(600);
+        fanout.write(2);
+        vi.advanceTimersByTime(600);
+
+        const stream = fanout.createStream();
+        fanout.write(3);
+
+        expect(await read(stream, 2)).toEqual([2, 3]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    test("хранит сообщения отдельно для каждого ключа", async () => {
+      const fanout = new StreamFanout<string>(undefined, {
+        size: 1,
+        key: (chunk) => (chunk.startsWith("skip") ? undefined : chunk[0]),
+      });
+      ["a1", "b1", "a2", "skip", "b2"].forEach((chunk) => fanout.write(chunk));
+
+      const stream = fanout.createStream();
+      fanout.write("c1");
+
+      expect(await read(stream, 3)).toEqual(["a2", "b2", "c1"]);
+    });
+  });
+
   describe("производительность", () => {
     test("обрабатывает большое количество сообщений", async () => {
       const fanout = new StreamFanout<number>();
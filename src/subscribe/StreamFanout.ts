@@ -1,40 +1,166 @@
+import type { Realtime } from "../types";
+
+/**
+ * A single output stream and the messages waiting to be read from it
+ */
+type Output<TInput> = {
+  controller: ReadableStreamDefaultController;
+  filter: ((chunk: TInput) => boolean) | undefined;
+  transform: ((chunk: TInput) => unknown) | undefined;
+  queue: unknown[];
+  highWaterMark: number;
+  overflow: Realtime.Subscribe.Overflow;
+  dropped: number;
+
+  /**
+   * Whether a read is waiting for the next chunk
+   */
+  waiting: boolean;
+
+  /**
+   * Whether the stream should close once its queue has been read
+   */
+  closing: boolean;
+};
+
+/**
+ * Options for keeping recent chunks to replay to newly created streams
+ */
+export interface ReplayOptions<TInput> {
+  /**
+   * The most chunks to keep for each key. Defaults to 100.
+   */
+  size?: number;
+
+  /**
+   * Forget chunks older than this many milliseconds
+   */
+  maxAge?: number;
+
+  /**
+   * Group chunks so that each group keeps its own `size` most recent chunks.
+   * Return `undefined` for chunks that shouldn't be replayed.
+   */
+  key?: (chunk: TInput) => string | undefined;
+
+  /**
+   * Mark a chunk as replayed before it's delivered to a new stream
+   */
+  mark?: (chunk: TInput) => TInput;
+}
+
 /**
  * Fan out a single input stream to multiple output streams
  */
 export class StreamFanout<TInput = unknown> {
-  #writers = new Set<WritableStreamDefaultWriter<TInput>>();
+  #outputs = new Set<Output<TInput>>();
+  #streamOutputs = new WeakMap<ReadableStream, Output<TInput>>();
+  #onEmpty: (() => void) | undefined;
+  #replay: ReplayOptions<TInput> | undefined;
+
+  /**
+   * Recent chunks to replay, grouped by key, each with the order they were
+   * written in and when
+   */
+  #replayBuffers = new Map<
+    string,
+    { chunk: TInput; index: number; writtenAt: number }[]
+  >();
+  #replayIndex = 0;
+
+  constructor(
+    /**
+     * Called when the last active stream is closed or cancelled
+     */
+    onEmpty?: () => void,
+
+    /**
+     * Keep recent chunks and deliver them to each new stream before anything
+     * else. Disabled by default.
+     */
+    replay?: ReplayOptions<TInput>,
+  ) {
+    this.#onEmpty = onEmpty;
+    this.#replay = replay;
+  }
 
   /**
-   * Create a new output stream with optional transformation
+   * Create a new output stream with optional transformation.
+   *
+   * Pass a `filter` to only deliver some chunks to the stream.
+   *
+   * By default, messages are buffered until they're read. Pass a
+   * `highWaterMark` to limit how many are buffered, and an `overflow` strategy
+   * to decide what happens when a slow reader reaches it.
    */
   createStream<TOutput = TInput>(
     /**
-     * Optional transform function for each chunk
+     * Optional transform function for each chunk, or options for the stream
      */
-    transform?: (
-      /**
-       * Input chunk
-       */
-      chunk: TInput,
-    ) => TOutput,
+    transformOrOptions?:
+      | ((
+          /**
+           * Input chunk
+           */
+          chunk: TInput,
+        ) => TOutput)
+      | (Realtime.Subscribe.StreamOptions & {
+          /**
+           * Optional transform function for each chunk
+           */
+          transform?: (chunk: TInput) => TOutput;
+
+          /**
+           * Only deliver chunks for which this returns `true`
+           */
+          filter?: (chunk: TInput) => boolean;
+        }),
   ): ReadableStream<TOutput> {
-    const { readable, writable } = new TransformStream<TInput, TOutput>({
-      transform: (chunk, controller) => {
-        controller.enqueue(
-          transform ? transform(chunk) : (chunk as unknown as TOutput),
-        );
+    const {
+      filter,
+      transform,
+      highWaterMark = Infinity,
+      overflow = "drop-oldest",
+    } = typeof transformOrOptions === "function"
+      ? { transform: transformOrOptions }
+      : (transformOrOptions ?? {});
+
+    let output!: Output<TInput>;
+
+    // We keep our own queue rather than using the stream's, so that we can
+    // decide what to drop when it's full.
+    const readable = new ReadableStream<TOutput>(
+      {
+        start: (controller) => {
+          output = {
+            controller,
+            filter,
+            transform,
+            queue: [],
+            highWaterMark,
+            overflow,
+            dropped: 0,
+            waiting: false,
+            closing: false,
+          };
+        },
+        pull: () => {
+          this.#pull(output);
+        },
+        cancel: () => {
+          output.queue = [];
+          this.#removeOutput(output);
+        },
       },
-    });
+      { highWaterMark: 0 },
+    );
 
-    const writer = writable.getWriter();
-    this.#writers.add(writer);
+    this.#outputs.add(output);
+    this.#streamOutputs.set(readable, output);
 
-    // Eagerly remove the writer is the stream is closed
-    writer.closed
-      .catch(() => {}) // Suppress unhandled promise rejection to avoid noisy logs
-      .finally(() => {
-        this.#writers.delete(writer);
-      });
+    for (const chunk of this.#getReplay()) {
+      this.#push(output, this.#replay?.mark ? this.#replay.mark(chunk) : chunk);
+    }
 
     return readable;
   }
@@ -48,35 +174,230 @@ export class StreamFanout<TInput = unknown> {
      */
     chunk: TInput,
   ) {
-    for (const writer of this.#writers) {
-      writer.ready
-        .then(() => writer.write(chunk))
-        // Dereference the writer if we fail, as this means it's closed
-        .catch(() => this.#writers.delete(writer));
+    this.#remember(chunk);
+
+    for (const output of this.#outputs) {
+      this.#push(output, chunk);
+    }
+  }
+
+  /**
+   * Close a single stream created by this fanout, even if it is locked to a
+   * reader
+   */
+  closeStream(
+    /**
+     * Stream to close
+     */
+    stream: ReadableStream,
+  ) {
+    const output = this.#streamOutputs.get(stream);
+    if (!output || !this.#outputs.has(output)) {
+      return;
     }
+
+    this.#closeOutput(output);
+  }
+
+  /**
+   * Get the number of messages dropped from a stream created by this fanout
+   * because its reader fell behind
+   */
+  getDroppedCount(
+    /**
+     * Stream to get the count for
+     */
+    stream: ReadableStream,
+  ): number {
+    return this.#streamOutputs.get(stream)?.dropped ?? 0;
   }
 
   /**
    * Close all active streams
    */
   close() {
-    for (const writer of this.#writers) {
-      try {
-        writer.close();
-      } catch {
-        // Ignore errors, as we are closing the stream and the writer may
-        // already be closed, especially if the stream is closed before the
-        // writer is closed or if the stream is cancelled.
+    const hadOutputs = this.#outputs.size > 0;
+
+    for (const output of this.#outputs) {
+      this.#endOutput(output);
+    }
+
+    this.#outputs.clear();
+
+    if (hadOutputs) {
+      this.#onEmpty?.();
+    }
+  }
+
+  /**
+   * Deliver a chunk to a stream, queueing it if nothing is waiting to read it
+   */
+  #push(output: Output<TInput>, chunk: TInput) {
+    let value: unknown;
+    try {
+      if (output.filter && !output.filter(chunk)) {
+        return;
+      }
+
+      value = output.transform ? output.transform(chunk) : chunk;
+    } catch (err) {
+      this.#errorOutput(output, err);
+      return;
+    }
+
+    if (output.waiting) {
+      output.waiting = false;
+      output.controller.enqueue(value);
+      return;
+    }
+
+    if (output.queue.length < output.highWaterMark) {
+      output.queue.push(value);
+      return;
+    }
+
+    output.dropped++;
+
+    switch (output.overflow) {
+      case "drop-oldest": {
+        output.queue.shift();
+        output.queue.push(value);
+        break;
+      }
+
+      case "drop-newest": {
+        break;
+      }
+
+      case "error": {
+        this.#errorOutput(
+          output,
+          new Error(
+            `Stream fell behind by more than ${output.highWaterMark} messages`,
+          ),
+        );
+        break;
+      }
+
+      case "close": {
+        this.#closeOutput(output);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Keep a chunk to replay to new streams, if replaying is enabled
+   */
+  #remember(chunk: TInput) {
+    if (!this.#replay) {
+      return;
+    }
+
+    const key = this.#replay.key ? this.#replay.key(chunk) : "";
+    if (key === undefined) {
+      return;
+    }
+
+    const now = Date.now();
+    const buffer = this.#replayBuffers.get(key) ?? [];
+    buffer.push({ chunk, index: this.#replayIndex++, writtenAt: now });
+    if (buffer.length > (this.#replay.size ?? 100)) {
+      buffer.shift();
+    }
+
+    this.#forgetExpired(buffer, now);
+    this.#replayBuffers.set(key, buffer);
+  }
+
+  /**
+   * Get the chunks to replay to a new stream in the order they were written,
+   * forgetting any that are too old
+   */
+  #getReplay(): TInput[] {
+    const now = Date.now();
+    const entries: { chunk: TInput; index: number }[] = [];
+
+    for (const [key, buffer] of this.#replayBuffers) {
+      this.#forgetExpired(buffer, now);
+      if (!buffer.length) {
+        this.#replayBuffers.delete(key);
+        continue;
       }
+
+      entries.push(...buffer);
+    }
+
+    return entries.sort((a, b) => a.index - b.index).map(({ chunk }) => chunk);
+  }
+
+  #forgetExpired(buffer: { writtenAt: number }[], now: number) {
+    const maxAge = this.#replay?.maxAge;
+    if (maxAge === undefined) {
+      return;
+    }
+
+    while (buffer[0] && buffer[0].writtenAt < now - maxAge) {
+      buffer.shift();
+    }
+  }
+
+  /**
+   * Deliver the next queued chunk to a waiting read, or wait for one to be
+   * written
+   */
+  #pull(output: Output<TInput>) {
+    if (!output.queue.length) {
+      output.waiting = true;
+      return;
+    }
+
+    output.controller.enqueue(output.queue.shift());
+
+    if (output.closing && !output.queue.length) {
+      output.controller.close();
+    }
+  }
+
+  /**
+   * Stop writing to a stream straight away, closing it once the reader has
+   * drained anything already queued
+   */
+  #closeOutput(output: Output<TInput>) {
+    this.#endOutput(output);
+    this.#removeOutput(output);
+  }
+
+  #endOutput(output: Output<TInput>) {
+    output.closing = true;
+
+    if (output.queue.length) {
+      return;
+    }
+
+    try {
+      output.controller.close();
+    } catch {
+      // Ignore errors, as the stream may have been cancelled already
     }
+  }
+
+  #errorOutput(output: Output<TInput>, err: unknown) {
+    output.queue = [];
+    output.controller.error(err);
+    this.#removeOutput(output);
+  }
 
-    this.#writers.clear();
+  #removeOutput(output: Output<TInput>) {
+    if (this.#outputs.delete(output) && this.#outputs.size === 0) {
+      this.#onEmpty?.();
+    }
   }
 
   /**
    * Get the number of active streams
    */
   size() {
-    return this.#writers.size;
+    return this.#outputs.size;
   }
 }
@@ -0,0 +1,1768 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import type { StandardSchemaV1 } from "@standard-schema/spec";
+import { channel } from "../channel";
+import { topic } from "../topic";
+import { z } from "zod";
+import { TokenSubscription } from "./TokenSubscription";
+
+// Мокаем WebSocket с ручным управлением событиями
+class MockWebSocket {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static CLOSING = 2;
+  static CLOSED = 3;
+
+  static instances: MockWebSocket[] = [];
+
+  readyState = MockWebSocket.CONNECTING;
+  sent: string[] = [];
+  onopen: ((event: any) => void) | null = null;
+  onmessage: ((event: any) => void) | null = null;
+  onerror: ((event: any) => void) | null = null;
+  onclose: ((event: any) => void) | null = null;
+
+  constructor(public url: URL) {
+    MockWebSocket.instances.push(this);
+  }
+
+  open() {
+    this.readyState = MockWebSocket.OPEN;
+    this.onopen?.({});
+  }
+
+  receive(data: unknown) {
+    this.onmessage?.({ data: JSON.stringify(data) });
+  }
+
+  drop(code = 1006, reason = "") {
+    this.readyState = MockWebSocket.CLOSED;
+    this.onclose?.({ code, reason, wasClean: false });
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  close(code?: number, reason?: string) {
+    this.readyState = MockWebSocket.CLOSED;
+    this.onclose?.({
+      code: code || 1000,
+      reason: reason || "",
+      wasClean: true,
+    });
+  }
+}
+
+const latestSocket = () => MockWebSocket.instances.at(-1)!;
+
+/**
+ * Let pending promises and socket construction settle
+ */
+const flush = async () => {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+};
+
+const createSubscription = (
+  options?: ConstructorParameters<typeof TokenSubscription>[4],
+) => {
+  return new TokenSubscription(
+    {
+      channel: channel("test-channel").addTopic(topic("topic1"))(),
+      topics: ["topic1"],
+      key: "test-key",
+    },
+    "https://api.test.com",
+    undefined,
+    undefined,
+    options,
+  );
+};
+
+const connect = async (subscription: TokenSubscription) => {
+  const promise = subscription.connect();
+  await flush();
+  latestSocket().open();
+  await promise;
+};
+
+describe("TokenSubscription", () => {
+  beforeEach(() => {
+    MockWebSocket.instances = [];
+    global.WebSocket = MockWebSocket as any;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("переподключение", () => {
+    test("переподключается после аварийного закрытия", async () => {
+      vi.useFakeTimers();
+      const subscription = createSubscription({
+        retry: { jitter: "none", initialDelay: 100 },
+      });
+      await connect(subscription);
+
+      latestSocket().drop();
+      expect(MockWebSocket.instances).toHaveLength(1);
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(MockWebSocket.instances).toHaveLength(2);
+
+      subscription.close();
+    });
+
+    test("повторяет неудачные попытки до maxAttempts", async () => {
+      vi.useFakeTimers();
+      const subscription = createSubscription({
+        retry: { jitter: "none", initialDelay: 100, maxAttempts: 2 },
+      });
+      const reader = subscription.getJsonStream().getReader();
+      await connect(subscription);
+
+      latestSocket().drop();
+      await vi.advanceTimersByTimeAsync(100);
+      latestSocket().drop();
+      await vi.advanceTimersByTimeAsync(200);
+      latestSocket().drop();
+      await vi.advanceTimersByTimeAsync(10_000);
+
+      expect(MockWebSocket.instances).toHaveLength(3);
+      await expect(reader.read()).resolves.toEqual({
+        done: true,
+        value: undefined,
+      });
+    });
+
+    test("вызывает shouldRetry с событием закрытия и номером попытки", async () => {
+      vi.useFakeTimers();
+      const shouldRetry = vi.fn().mockReturnValue(false);
+      const subscription = createSubscription({ retry: { shouldRetry } });
+      const reader = subscription.getJsonStream().getReader();
+      await connect(subscription);
+
+      latestSocket().drop(4000, "bye");
+
+      expect(shouldRetry).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 4000, reason: "bye" }),
+        1,
+      );
+      await expect(reader.read()).resolves.toMatchObject({ done: true });
+      expect(MockWebSocket.instances).toHaveLength(1);
+    });
+
+    test("close() во время подключения завершает connect()", async () => {
+      const subscription = createSubscription();
+      const promise = subscription.connect();
+      await flush();
+
+      subscription.close();
+
+      await expect(promise).resolves.toBeUndefined();
+      expect(latestSocket().readyState).toBe(MockWebSocket.CLOSED);
+      expect(subscription.state).toBe("closed");
+    });
+
+    test("не переподключается после close()", async () => {
+      vi.useFakeTimers();
+      const subscription = createSubscription({ retry: { initialDelay: 100 } });
+      await connect(subscription);
+
+      latestSocket().drop();
+      subscription.close();
+      await vi.advanceTimersByTimeAsync(10_000);
+
+      expect(MockWebSocket.instances).toHaveLength(1);
+    });
+  });
+
+  describe("обновление токена", () => {
+    const createJwt = (exp: number) => {
+      const payload = Buffer.from(JSON.stringify({ exp })).toString(
+        "base64url",
+      );
+      return `header.${payload}.signature`;
+    };
+
+    test("обновляет токен при закрытии с кодом авторизации", async () => {
+      vi.useFakeTimers();
+      const refreshToken = vi.fn().mockResolvedValue("fresh-key");
+      const subscription = createSubscription({
+        retry: { jitter: "none", initialDelay: 100 },
+        refreshToken,
+      });
+      await connect(subscription);
+
+      latestSocket().drop(4001, "token expired");
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+      expect(latestSocket().url.searchParams.get("token")).toBe("fresh-key");
+      expect(subscription.token.key).toBe("fresh-key");
+
+      subscription.close();
+    });
+
+    test("не обновляет токен при обычном разрыве соединения", async () => {
+      vi.useFakeTimers();
+      const refreshToken = vi.fn().mockResolvedValue("fresh-key");
+      const subscription = createSubscription({
+        retry: { jitter: "none", initialDelay: 100 },
+        refreshToken,
+      });
+      await connect(subscription);
+
+      latestSocket().drop(1006);
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(refreshToken).not.toHaveBeenCalled();
+      expect(latestSocket().url.searchParams.get("token")).toBe("test-key");
+
+      subscription.close();
+    });
+
+    test("обновляет токен после неудачного рукопожатия", async () => {
+      vi.useFakeTimers();
+      const refreshToken = vi.fn().mockResolvedValue({ key: "fresh-key" });
+      const subscription = createSubscription({
+        retry: { jitter: "none", initialDelay: 100 },
+        refreshToken,
+      });
+      await connect(subscription);
+
+      latestSocket().drop(1006);
+      await vi.advanceTimersByTimeAsync(100);
+      expect(refreshToken).not.toHaveBeenCalled();
+
+      latestSocket().drop(1006);
+      await vi.advanceTimersByTimeAsync(200);
+
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+      expect(latestSocket().url.searchParams.get("token")).toBe("fresh-key");
+
+      subscription.close();
+    });
+
+    test("обновляет просроченный JWT перед подключением", async () => {
+      const refreshToken = vi.fn().mockResolvedValue("fresh-key");
+      const subscription = new TokenSubscription(
+        {
+          channel: channel("test-channel").addTopic(topic("topic1"))(),
+          topics: ["topic1"],
+          key: createJwt(Math.floor(Date.now() / 1000) - 60),
+        },
+        "https://api.test.com",
+        undefined,
+        undefined,
+        { refreshToken },
+      );
+
+      await connect(subscription);
+
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+      expect(latestSocket().url.searchParams.get("token")).toBe("fresh-key");
+
+      subscription.close();
+    });
+  });
+
+  describe("плавная смена соединения", () => {
+    const dataMessage = (n: number) => ({
+      kind: "data",
+      channel: "test-channel",
+      topic: "topic1",
+      data: { n },
+      created_at: "2024-01-01T00:00:00.000Z",
+    });
+
+    test("открывает новое соединение при получении closing", async () => {
+      vi.useFakeTimers();
+      const subscription = createSubscription();
+      await connect(subscription);
+      const oldSocket = latestSocket();
+
+      oldSocket.receive({ kind: "closing" });
+      await flush();
+
+      expect(MockWebSocket.instances).toHaveLength(2);
+      expect(oldSocket.readyState).toBe(MockWebSocket.OPEN);
+
+      latestSocket().open();
+      await flush();
+
+      // Закрытие старого соединения сервером не вызывает переподключение
+      oldSocket.drop(1001);
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(MockWebSocket.instances).toHaveLength(2);
+
+      subscription.close();
+    });
+
+    test("не доставляет сообщения, полученные по обоим соединениям", async () => {
+      vi.useFakeTimers();
+      const subscription = createSubscription();
+      const reader = subscription.getJsonStream().getReader();
+      await connect(subscription);
+      const oldSocket = latestSocket();
+
+      oldSocket.receive({ kind: "closing" });
+      await flush();
+      const newSocket = latestSocket();
+      newSocket.open();
+      await flush();
+
+      oldSocket.receive(dataMessage(1));
+      newSocket.receive(dataMessage(1));
+      newSocket.receive(dataMessage(2));
+      oldSocket.receive(dataMessage(2));
+      newSocket.receive(dataMessage(3));
+      await flush();
+
+      subscription.close();
+
+      const received: unknown[] = [];
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        received.push(value.data);
+      }
+
+      expect(received).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }]);
+    });
+
+    test("закрывает старое соединение после периода ожидания", async () => {
+      vi.useFakeTimers();
+      const subscription = createSubscription();
+      await connect(subscription);
+      const oldSocket = latestSocket();
+
+      oldSocket.receive({ kind: "closing" });
+      await flush();
+      latestSocket().open();
+      await flush();
+
+      await vi.advanceTimersByTimeAsync(5_000);
+
+      expect(oldSocket.readyState).toBe(MockWebSocket.CLOSED);
+      expect(latestSocket().readyState).toBe(MockWebSocket.OPEN);
+
+      subscription.close();
+    });
+
+    test("переподключается если новое соединение не удалось открыть", async () => {
+      vi.useFakeTimers();
+      const subscription = createSubscription({
+        retry: { jitter: "none", initialDelay: 100 },
+      });
+      await connect(subscription);
+      const oldSocket = latestSocket();
+
+      oldSocket.receive({ kind: "closing" });
+      await flush();
+      oldSocket.drop(1001);
+      latestSocket().drop(1006);
+      await flush();
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(MockWebSocket.instances).toHaveLength(3);
+
+      subscription.close();
+    });
+  });
+
+  describe("курсор возобновления", () => {
+    const seqMessage = (seq: number) => ({
+      kind: "data",
+      channel: "test-channel",
+      topic: "topic1",
+      data: { seq },
+      seq,
+      created_at: `2024-01-01T00:00:0${seq}.000Z`,
+    });
+
+    test("отслеживает позицию последнего сообщения", async () => {
+      const subscription = createSubscription();
+      await connect(subscription);
+
+      latestSocket().receive(seqMessage(1));
+      latestSocket().receive(seqMessage(2));
+      await flush();
+
+      expect(subscription.cursor).toEqual({
+        createdAt: new Date("2024-01-01T00:00:02.000Z"),
+        seq: 2,
+      });
+
+      subscription.close();
+    });
+
+    test("передает курсор при переподключении", async () => {
+      vi.useFakeTimers();
+      const subscription = createSubscription({
+        retry: { jitter: "none", initialDelay: 100 },
+      });
+      await connect(subscription);
+      expect(latestSocket().url.searchParams.has("since")).toBe(false);
+
+      latestSocket().receive(seqMessage(3));
+      await flush();
+      latestSocket().drop();
+      await vi.advanceTimersByTimeAsync(100);
+
+      const url = latestSocket().url;
+      expect(url.searchParams.get("since")).toBe("2024-01-01T00:00:03.000Z");
+      expect(url.searchParams.get("since_seq")).toBe("3");
+
+      subscription.close();
+    });
+
+    test("использует начальный курсор из опций", async () => {
+      const subscription = createSubscription({
+        cursor: { createdAt: new Date("2024-01-01T00:00:00.000Z"), seq: 7 },
+      });
+      await connect(subscription);
+
+      expect(latestSocket().url.searchParams.get("since_seq")).toBe("7");
+
+      subscription.close();
+    });
+
+    test("отбрасывает повторно воспроизведенные сообщения", async () => {
+      const subscription = createSubscription();
+      const reader = subscription.getJsonStream().getReader();
+      await connect(subscription);
+
+      latestSocket().receive(seqMessage(1));
+      latestSocket().receive(seqMessage(2));
+      latestSocket().receive(seqMessage(1));
+      latestSocket().receive(seqMessage(3));
+      await flush();
+      subscription.close();
+
+      const received: unknown[] = [];
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        received.push(value.data);
+      }
+
+      expect(received).toEqual([{ seq: 1 }, { seq: 2 }, { seq: 3 }]);
+    });
+
+    test("вызывает onGap при пропуске сообщений", async () => {
+      const onGap = vi.fn();
+      const subscription = createSubscription({ onGap });
+      await connect(subscription);
+
+      latestSocket().receive(seqMessage(1));
+      latestSocket().receive(seqMessage(4));
+      await flush();
+
+      expect(onGap).toHaveBeenCalledWith({
+        from: { createdAt: new Date("2024-01-01T00:00:01.000Z"), seq: 1 },
+        to: { createdAt: new Date("2024-01-01T00:00:04.000Z"), seq: 4 },
+        missed: 2,
+      });
+
+      subscription.close();
+    });
+  });
+
+  describe("динамические топики", () => {
+    const topicMessage = (name: string) => ({
+      kind: "data",
+      channel: "test-channel",
+      topic: name,
+      data: { name },
+    });
+
+    test("отправляет sub и получает сообщения нового топика", async () => {
+      const refreshToken = vi.fn().mockResolvedValue("wider-key");
+      const subscription = createSubscription({ refreshToken });
+      const reader = subscription.getJsonStream().getReader();
+      await connect(subscription);
+
+      await subscription.addTopics(["topic2"]);
+
+      expect(refreshToken).toHaveBeenCalledWith({
+        channels: [{ channel: "test-channel", topics: ["topic1", "topic2"] }],
+      });
+      expect(JSON.parse(latestSocket().sent.at(-1)!)).toEqual({
+        kind: "sub",
+        channel: "test-channel",
+        data: { topics: ["topic2"], token: "wider-key" },
+      });
+      expect(subscription.channels).toEqual([
+        { channel: "test-channel", topics: ["topic1", "topic2"] },
+      ]);
+
+      latestSocket().receive(topicMessage("topic2"));
+      await expect(reader.read()).resolves.toMatchObject({
+        value: { topic: "topic2" },
+      });
+
+      subscription.close();
+    });
+
+    test("не получает новый токен если текущий покрывает топики", async () => {
+      const refreshToken = vi.fn();
+      const subscription = createSubscription({ refreshToken });
+      await connect(subscription);
+
+      await subscription.removeTopics(["topic1"]);
+      await subscription.addTopics(["topic1"]);
+
+      expect(refreshToken).not.toHaveBeenCalled();
+      expect(JSON.parse(latestSocket().sent.at(-1)!)).toEqual({
+        kind: "sub",
+        channel: "test-channel",
+        data: { topics: ["topic1"] },
+      });
+
+      subscription.close();
+    });
+
+    test("отправляет unsub и перестает доставлять сообщения", async () => {
+      const subscription = createSubscription();
+      const reader = subscription.getJsonStream().getReader();
+      await connect(subscription);
+
+      await subscription.removeTopics(["topic1"]);
+
+      expect(JSON.parse(latestSocket().sent.at(-1)!)).toEqual({
+        kind: "unsub",
+        channel: "test-channel",
+        data: { topics: ["topic1"] },
+      });
+
+      latestSocket().receive(topicMessage("topic1"));
+      await flush();
+      subscription.close();
+
+      await expect(reader.read()).resolves.toMatchObject({ done: true });
+    });
+
+    test("повторно отправляет unsub после переподключения", async () => {
+      vi.useFakeTimers();
+      const subscription = createSubscription({
+        retry: { jitter: "none", initialDelay: 100 },
+      });
+      await connect(subscription);
+      await subscription.removeTopics(["topic1"]);
+
+      latestSocket().drop();
+      await vi.advanceTimersByTimeAsync(100);
+      latestSocket().open();
+      await flush();
+
+      expect(latestSocket().sent.map((frame) => JSON.parse(frame))).toEqual([
+        {
+          kind: "unsub",
+          channel: "test-channel",
+          data: { topics: ["topic1"] },
+        },
+      ]);
+
+      subscription.close();
+    });
+  });
+
+  describe("события жизненного цикла", () => {
+    test("сообщает о смене состояния при подключении и закрытии", async () => {
+      const subscription = createSubscription();
+      const states: string[] = [];
+      const onClosed = vi.fn();
+      subscription.on("state", (state) => states.push(state));
+      subscription.on("closed", onClosed);
+
+      expect(subscription.state).toBe("idle");
+      await connect(subscription);
+      expect(subscription.state).toBe("active");
+
+      subscription.close();
+
+      expect(states).toEqual(["connecting", "active", "closed"]);
+      expect(onClosed).toHaveBeenCalledWith({
+        reason: "closed",
+        closeInfo: undefined,
+      });
+    });
+
+    test("сообщает о переподключении", async () => {
+      vi.useFakeTimers();
+      const subscription = createSubscription({
+        retry: { jitter: "none", initialDelay: 100 },
+      });
+      const onReconnecting = vi.fn();
+      const onReconnected = vi.fn();
+      const onError = vi.fn();
+      subscription.on("reconnecting", onReconnecting);
+      subscription.on("reconnected", onReconnected);
+      subscription.on("error", onError);
+      await connect(subscription);
+
+      latestSocket().drop(1006, "gone");
+      expect(subscription.state).toBe("reconnecting");
+      expect(onReconnecting).toHaveBeenCalledWith({
+        attempt: 1,
+        delay: 100,
+        closeInfo: { code: 1006, reason: "gone", wasClean: false },
+      });
+
+      // Первая попытка не удается
+      await vi.advanceTimersByTimeAsync(100);
+      latestSocket().drop();
+      await flush();
+      expect(onError).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(200);
+      latestSocket().open();
+      await flush();
+
+      expect(subscription.state).toBe("active");
+      expect(onReconnected).toHaveBeenCalledWith({ attempts: 2 });
+
+      subscription.close();
+    });
+
+    test("сообщает о закрытии после исчерпания попыток", async () => {
+      vi.useFakeTimers();
+      const subscription = createSubscription({
+        retry: { maxAttempts: 0 },
+      });
+      const onClosed = vi.fn();
+      subscription.on("closed", onClosed);
+      await connect(subscription);
+
+      latestSocket().drop(1011, "error");
+
+      expect(subscription.state).toBe("closed");
+      expect(onClosed).toHaveBeenCalledWith({
+        reason: "retries-exhausted",
+        closeInfo: { code: 1011, reason: "error", wasClean: false },
+      });
+    });
+
+    test("перестает вызывать обработчик после отписки", async () => {
+      const subscription = createSubscription();
+      const listener = vi.fn();
+      const off = subscription.on("state", listener);
+
+      off();
+      await connect(subscription);
+
+      expect(listener).not.toHaveBeenCalled();
+
+      subscription.close();
+    });
+  });
+
+  describe("реализация WebSocket", () => {
+    test("использует переданную реализацию", async () => {
+      const globalWebSocket = global.WebSocket;
+      delete (global as any).WebSocket;
+
+      try {
+        const subscription = createSubscription({
+          WebSocket: MockWebSocket,
+        });
+        await connect(subscription);
+
+        expect(MockWebSocket.instances).toHaveLength(1);
+        expect(subscription.state).toBe("active");
+
+        subscription.close();
+      } finally {
+        global.WebSocket = globalWebSocket;
+      }
+    });
+
+    test("выбрасывает ошибку без глобального WebSocket", async () => {
+      const globalWebSocket = global.WebSocket;
+      delete (global as any).WebSocket;
+
+      try {
+        const subscription = createSubscription();
+
+        await expect(subscription.connect()).rejects.toThrow(
+          "WebSocket is not supported in current environment",
+        );
+      } finally {
+        global.WebSocket = globalWebSocket;
+      }
+    });
+  });
+
+  describe("транспорт SSE", () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    /**
+     * Stub `fetch` to return event streams that we can push events into
+     */
+    const mockEventStreams = () => {
+      const streams: {
+        url: URL;
+        headers: Record<string, string>;
+        push: (text: string) => void;
+        end: () => void;
+      }[] = [];
+
+      global.fetch = vi.fn(async (url: URL, init: RequestInit) => {
+        let controller!: ReadableStreamDefaultController<Uint8Array>;
+        const body = new ReadableStream<Uint8Array>({
+          start(c) {
+            controller = c;
+          },
+        });
+
+        streams.push({
+          url,
+          headers: init.headers as Record<string, string>,
+          push: (text) => controller.enqueue(new TextEncoder().encode(text)),
+          end: () => controller.close(),
+        });
+
+        return { ok: true, status: 200, body } as Response;
+      }) as unknown as typeof fetch;
+
+      return streams;
+    };
+
+    const dataEvent = (id: string, n: number) =>
+      `id: ${id}\ndata: ${JSON.stringify({
+        kind: "data",
+        channel: "test-channel",
+        topic: "topic1",
+        data: { n },
+        created_at: "2024-01-01T00:00:00.000Z",
+      })}\n\n`;
+
+    test("получает сообщения через SSE", async () => {
+      const streams = mockEventStreams();
+      const subscription = createSubscription({ transport: "sse" });
+      const reader = subscription.getJsonStream().getReader();
+
+      await subscription.connect();
+      expect(MockWebSocket.instances).toHaveLength(0);
+      expect(streams[0]?.url.protocol).toBe("https:");
+      expect(subscription.state).toBe("active");
+
+      streams[0]?.push(dataEvent("1", 1));
+      await expect(reader.read()).resolves.toMatchObject({
+        value: { data: { n: 1 } },
+      });
+
+      subscription.close();
+    });
+
+    test("возобновляет поток с последнего id", async () => {
+      vi.useFakeTimers();
+      const streams = mockEventStreams();
+      const subscription = createSubscription({
+        transport: "sse",
+        retry: { jitter: "none", initialDelay: 100 },
+      });
+      const reader = subscription.getJsonStream().getReader();
+      await subscription.connect();
+
+      streams[0]?.push(dataEvent("abc", 1));
+      await reader.read();
+
+      streams[0]?.end();
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(streams).toHaveLength(2);
+      expect(streams[1]?.headers["Last-Event-ID"]).toBe("abc");
+
+      subscription.close();
+    });
+
+    test("переключается на SSE, если WebSocket не подключился", async () => {
+      const streams = mockEventStreams();
+      const subscription = createSubscription({ transport: "auto" });
+
+      const promise = subscription.connect();
+      await flush();
+      latestSocket().drop();
+      await promise;
+
+      expect(streams).toHaveLength(1);
+      expect(subscription.state).toBe("active");
+
+      subscription.close();
+    });
+
+    test("не переключается на SSE по умолчанию", async () => {
+      const streams = mockEventStreams();
+      const subscription = createSubscription();
+
+      const promise = subscription.connect();
+      await flush();
+      latestSocket().drop();
+
+      await expect(promise).rejects.toThrow("WebSocket connection error");
+      expect(streams).toHaveLength(0);
+    });
+  });
+
+  describe("отмена через AbortSignal", () => {
+    test("прерывает получение токена", async () => {
+      const controller = new AbortController();
+      const refreshToken = vi.fn(() => new Promise<string>(() => {}));
+      const subscription = new TokenSubscription(
+        {
+          channel: channel("test-channel").addTopic(topic("topic1"))(),
+          topics: ["topic1"],
+        },
+        "https://api.test.com",
+        undefined,
+        undefined,
+        { refreshToken, signal: controller.signal },
+      );
+
+      const promise = subscription.connect();
+      await flush();
+      controller.abort();
+
+      await expect(promise).rejects.toMatchObject({ name: "AbortError" });
+      expect(refreshToken).toHaveBeenCalledWith(
+        expect.objectContaining({ signal: controller.signal }),
+      );
+      expect(MockWebSocket.instances).toHaveLength(0);
+      expect(subscription.state).toBe("closed");
+    });
+
+    test("прерывает открытие соединения", async () => {
+      const controller = new AbortController();
+      const subscription = createSubscription({ signal: controller.signal });
+
+      const promise = subscription.connect();
+      await flush();
+      controller.abort();
+
+      await expect(promise).rejects.toMatchObject({ name: "AbortError" });
+      expect(latestSocket().readyState).toBe(MockWebSocket.CLOSED);
+    });
+
+    test("закрывает подписку и отменяет переподключение", async () => {
+      vi.useFakeTimers();
+      const controller = new AbortController();
+      const subscription = createSubscription({
+        signal: controller.signal,
+        retry: { jitter: "none", initialDelay: 100 },
+      });
+      const reader = subscription.getJsonStream().getReader();
+      const onClosed = vi.fn();
+      subscription.on("closed", onClosed);
+      await connect(subscription);
+
+      latestSocket().drop();
+      controller.abort();
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(MockWebSocket.instances).toHaveLength(1);
+      expect(onClosed).toHaveBeenCalledWith({
+        reason: "aborted",
+        closeInfo: undefined,
+      });
+      await expect(reader.read()).resolves.toMatchObject({ done: true });
+    });
+
+    test("не подключается с уже отмененным сигналом", async () => {
+      const subscription = createSubscription({ signal: AbortSignal.abort() });
+
+      await expect(subscription.connect()).rejects.toMatchObject({
+        name: "AbortError",
+      });
+      expect(MockWebSocket.instances).toHaveLength(0);
+    });
+  });
+
+  describe("контроль живости соединения", () => {
+    test("переподключается если сервер молчит дольше heartbeatTimeout", async () => {
+      vi.useFakeTimers();
+      const subscription = createSubscription({
+        heartbeatTimeout: 1000,
+        retry: { jitter: "none", initialDelay: 100 },
+      });
+      await connect(subscription);
+      const deadSocket = latestSocket();
+
+      await vi.advanceTimersByTimeAsync(999);
+      expect(MockWebSocket.instances).toHaveLength(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(deadSocket.readyState).toBe(MockWebSocket.CLOSED);
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(MockWebSocket.instances).toHaveLength(2);
+
+      subscription.close();
+    });
+
+    test("сбрасывает таймер при получении ping", async () => {
+      vi.useFakeTimers();
+      const subscription = createSubscription({ heartbeatTimeout: 1000 });
+      await connect(subscription);
+
+      await vi.advanceTimersByTimeAsync(800);
+      latestSocket().receive({ kind: "ping" });
+      await vi.advanceTimersByTimeAsync(800);
+
+      expect(latestSocket().readyState).toBe(MockWebSocket.OPEN);
+      expect(MockWebSocket.instances).toHaveLength(1);
+
+      subscription.close();
+    });
+
+    test("измеряет время отклика по ответу на ping", async () => {
+      vi.useFakeTimers();
+      const subscription = createSubscription({ pingInterval: 5000 });
+      await connect(subscription);
+
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(JSON.parse(latestSocket().sent.at(-1)!)).toEqual({
+        kind: "ping",
+      });
+      expect(subscription.roundTripTime).toBeUndefined();
+
+      await vi.advanceTimersByTimeAsync(42);
+      latestSocket().receive({ kind: "pong" });
+      await flush();
+
+      expect(subscription.roundTripTime).toBe(42);
+
+      subscription.close();
+    });
+  });
+
+  describe("несколько каналов", () => {
+    const createMultiSubscription = (
+      options?: ConstructorParameters<typeof TokenSubscription>[4],
+    ) => {
+      return new TokenSubscription(
+        {
+          channels: [
+            {
+              channel: channel("chan-a").addTopic(
+                topic("shared").schema(z.object({ a: z.string() })),
+              )(),
+              topics: ["shared"],
+            },
+            {
+              channel: channel("chan-b").addTopic(
+                topic("shared").schema(z.object({ b: z.number() })),
+              )(),
+              topics: ["shared"],
+            },
+          ],
+          key: "test-key",
+        },
+        "https://api.test.com",
+        undefined,
+        undefined,
+        options,
+      );
+    };
+
+    test("проверяет сообщения по схеме своего канала", async () => {
+      const subscription = createMultiSubscription();
+      const reader = subscription.getJsonStream().getReader();
+      const consoleError = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      await connect(subscription);
+
+      latestSocket().receive({
+        kind: "data",
+        channel: "chan-a",
+        topic: "shared",
+        data: { b: 1 },
+      });
+      latestSocket().receive({
+        kind: "data",
+        channel: "chan-b",
+        topic: "shared",
+        data: { b: 1 },
+      });
+      latestSocket().receive({
+        kind: "data",
+        channel: "chan-a",
+        topic: "shared",
+        data: { a: "ok" },
+      });
+
+      await expect(reader.read()).resolves.toMatchObject({
+        value: { channel: "chan-b", data: { b: 1 } },
+      });
+      await expect(reader.read()).resolves.toMatchObject({
+        value: { channel: "chan-a", data: { a: "ok" } },
+      });
+      expect(consoleError).toHaveBeenCalledTimes(1);
+
+      consoleError.mockRestore();
+      subscription.close();
+    });
+
+    test("ведет курсор для каждого канала", async () => {
+      vi.useFakeTimers();
+      const onGap = vi.fn();
+      const subscription = createMultiSubscription({
+        onGap,
+        retry: { jitter: "none", initialDelay: 100 },
+      });
+      const reader = subscription.getJsonStream().getReader();
+      await connect(subscription);
+
+      const seqMessage = (channelId: string, seq: number) => ({
+        kind: "data",
+        channel: channelId,
+        topic: "shared",
+        data: channelId === "chan-a" ? { a: `${seq}` } : { b: seq },
+        seq,
+        created_at: `2024-01-01T00:00:0${seq}.000Z`,
+      });
+
+      latestSocket().receive(seqMessage("chan-a", 5));
+      latestSocket().receive(seqMessage("chan-b", 1));
+      latestSocket().receive(seqMessage("chan-b", 2));
+      await flush();
+
+      await expect(reader.read()).resolves.toMatchObject({
+        value: { channel: "chan-a", cursor: { seq: 5 } },
+      });
+      await expect(reader.read()).resolves.toMatchObject({
+        value: { channel: "chan-b", cursor: { seq: 1 } },
+      });
+      await expect(reader.read()).resolves.toMatchObject({
+        value: { channel: "chan-b", cursor: { seq: 2 } },
+      });
+      expect(onGap).not.toHaveBeenCalled();
+
+      // Resumes every channel from the earliest of their last messages
+      expect(subscription.cursor).toEqual({
+        createdAt: new Date("2024-01-01T00:00:02.000Z"),
+      });
+
+      latestSocket().drop();
+      await vi.advanceTimersByTimeAsync(100);
+
+      const url = latestSocket().url;
+      expect(url.searchParams.get("since")).toBe("2024-01-01T00:00:02.000Z");
+      expect(url.searchParams.has("since_seq")).toBe(false);
+
+      // Replayed messages are only dropped if their own channel has had them
+      latestSocket().open();
+      await flush();
+      latestSocket().receive(seqMessage("chan-b", 2));
+      latestSocket().receive(seqMessage("chan-a", 6));
+      await flush();
+
+      await expect(reader.read()).resolves.toMatchObject({
+        value: { channel: "chan-a", cursor: { seq: 6 } },
+      });
+
+      subscription.close();
+    });
+
+    test("запрашивает токен для всех каналов", async () => {
+      vi.useFakeTimers();
+      const refreshToken = vi.fn().mockResolvedValue("new-key");
+      const subscription = createMultiSubscription({
+        refreshToken,
+        retry: { jitter: "none", initialDelay: 100 },
+      });
+      await connect(subscription);
+
+      latestSocket().drop(4401);
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(refreshToken).toHaveBeenCalledWith({
+        channels: [
+          { channel: "chan-a", topics: ["shared"] },
+          { channel: "chan-b", topics: ["shared"] },
+        ],
+      });
+
+      subscription.close();
+    });
+
+    test("требует канал при изменении топиков", async () => {
+      const subscription = createMultiSubscription();
+      await connect(subscription);
+
+      await expect(subscription.removeTopics(["shared"])).rejects.toThrow(
+        "A channel must be given",
+      );
+
+      await subscription.removeTopics(["shared"], "chan-b");
+      expect(JSON.parse(latestSocket().sent.at(-1)!)).toEqual({
+        kind: "unsub",
+        channel: "chan-b",
+        data: { topics: ["shared"] },
+      });
+      expect(subscription.channels).toEqual([
+        { channel: "chan-a", topics: ["shared"] },
+        { channel: "chan-b", topics: [] },
+      ]);
+
+      subscription.close();
+    });
+  });
+
+  describe("сообщения жизненного цикла", () => {
+    const lifecycleMessage = (
+      kind: string,
+      data: unknown,
+      overrides?: Record<string, unknown>,
+    ) => ({
+      kind,
+      channel: "test-channel",
+      run_id: "run-1",
+      fn_id: "fn-1",
+      data,
+      created_at: "2024-01-01T00:00:00.000Z",
+      ...overrides,
+    });
+
+    test("доставляет сообщения запуска, шагов и событий", async () => {
+      const subscription = createSubscription();
+      const reader = subscription
+        .getJsonStream({ kinds: ["run", "step", "event"] })
+        .getReader();
+      await connect(subscription);
+
+      latestSocket().receive(
+        lifecycleMessage("event", { name: "app/user.created", data: {} }),
+      );
+      latestSocket().receive(lifecycleMessage("run", { status: "started" }));
+      latestSocket().receive(
+        lifecycleMessage("step", {
+          id: "step-1",
+          status: "completed",
+          output: 42,
+        }),
+      );
+      latestSocket().receive(
+        lifecycleMessage("run", { status: "completed", output: "done" }),
+      );
+
+      const received: unknown[] = [];
+      for (let i = 0; i < 4; i++) {
+        received.push((await reader.read()).value);
+      }
+      subscription.close();
+
+      expect(received).toEqual([
+        {
+          kind: "event",
+          channel: "test-channel",
+          runId: "run-1",
+          fnId: "fn-1",
+          envId: undefined,
+          createdAt: new Date("2024-01-01T00:00:00.000Z"),
+          data: { name: "app/user.created", data: {} },
+          cursor: { createdAt: new Date("2024-01-01T00:00:00.000Z") },
+        },
+        expect.objectContaining({ kind: "run", data: { status: "started" } }),
+        expect.objectContaining({
+          kind: "step",
+          data: { id: "step-1", status: "completed", output: 42 },
+        }),
+        expect.objectContaining({
+          kind: "run",
+          data: { status: "completed", output: "done" },
+        }),
+      ]);
+    });
+
+    test("отбрасывает некорректные сообщения и чужие каналы", async () => {
+      const subscription = createSubscription();
+      const reader = subscription.getJsonStream({ kinds: ["run"] }).getReader();
+      await connect(subscription);
+
+      latestSocket().receive(lifecycleMessage("run", { status: "unknown" }));
+      latestSocket().receive(
+        lifecycleMessage("run", { status: "started" }, { run_id: undefined }),
+      );
+      latestSocket().receive(
+        lifecycleMessage(
+          "run",
+          { status: "started" },
+          { channel: "other-channel" },
+        ),
+      );
+      latestSocket().receive(
+        lifecycleMessage("run", {
+          status: "failed",
+          error: { name: "Error", message: "boom" },
+        }),
+      );
+      await flush();
+
+      await expect(reader.read()).resolves.toMatchObject({
+        value: {
+          kind: "run",
+          data: { status: "failed", error: { message: "boom" } },
+        },
+      });
+
+      subscription.close();
+    });
+
+    test("не доставляет их в потоки, которые их не запросили", async () => {
+      const subscription = createSubscription();
+      const stream = subscription.getJsonStream();
+      await connect(subscription);
+
+      latestSocket().receive(lifecycleMessage("run", { status: "started" }));
+      latestSocket().receive({
+        kind: "data",
+        channel: "test-channel",
+        topic: "topic1",
+        data: 1,
+      });
+      await flush();
+      subscription.close();
+
+      const received: unknown[] = [];
+      for await (const msg of stream) {
+        received.push(msg.kind);
+      }
+      expect(received).toEqual(["data"]);
+    });
+  });
+
+  describe("дедупликация сообщений", () => {
+    const dataMessage = (id: string, n: number) => ({
+      kind: "data",
+      channel: "test-channel",
+      topic: "topic1",
+      data: { n },
+      id,
+    });
+
+    const readAll = (subscription: TokenSubscription, count: number) => {
+      const reader = subscription.getJsonStream().getReader();
+      const received: unknown[] = [];
+
+      return {
+        received,
+        done: (async () => {
+          for (let i = 0; i < count; i++) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            received.push((value as { data: unknown }).data);
+          }
+        })(),
+      };
+    };
+
+    test("отбрасывает сообщения с уже полученным id", async () => {
+      const subscription = createSubscription();
+      const { received, done } = readAll(subscription, 2);
+      await connect(subscription);
+
+      latestSocket().receive(dataMessage("run-1:step-1:0", 1));
+      latestSocket().receive(dataMessage("run-1:step-1:0", 1));
+      latestSocket().receive(dataMessage("run-1:step-1:1", 2));
+      await done;
+
+      expect(received).toEqual([{ n: 1 }, { n: 2 }]);
+      subscription.close();
+    });
+
+    test("забывает самые старые id сверх лимита", async () => {
+      const subscription = createSubscription({ dedupe: 2 });
+      const { received, done } = readAll(subscription, 4);
+      await connect(subscription);
+
+      latestSocket().receive(dataMessage("a", 1));
+      latestSocket().receive(dataMessage("b", 2));
+      latestSocket().receive(dataMessage("c", 3));
+      latestSocket().receive(dataMessage("a", 4));
+      latestSocket().receive(dataMessage("c", 5));
+      await done;
+
+      expect(received).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }, { n: 4 }]);
+      subscription.close();
+    });
+
+    test("можно отключить", async () => {
+      const subscription = createSubscription({ dedupe: false });
+      const { received, done } = readAll(subscription, 2);
+      await connect(subscription);
+
+      latestSocket().receive(dataMessage("a", 1));
+      latestSocket().receive(dataMessage("a", 2));
+      await done;
+
+      expect(received).toEqual([{ n: 1 }, { n: 2 }]);
+      subscription.close();
+    });
+  });
+
+  describe("повтор сообщений", () => {
+    const dataMessage = (topicName: string, n: number) => ({
+      kind: "data",
+      channel: "test-channel",
+      topic: topicName,
+      data: { n },
+    });
+
+    const createTopicsSubscription = (
+      options?: ConstructorParameters<typeof TokenSubscription>[4],
+    ) => {
+      return new TokenSubscription(
+        {
+          channel: channel("test-channel")
+            .addTopic(topic("topic1"))
+            .addTopic(topic("topic2"))(),
+          topics: ["topic1", "topic2"],
+          key: "test-key",
+        },
+        "https://api.test.com",
+        undefined,
+        undefined,
+        options,
+      );
+    };
+
+    const read = async (stream: ReadableStream, count: number) => {
+      const reader = stream.getReader();
+      const values: unknown[] = [];
+      for (let i = 0; i < count; i++) {
+        const { value } = await reader.read();
+        values.push([value.topic, value.data.n, value.replayed]);
+      }
+      return values;
+    };
+
+    test("новые потоки получают недавние сообщения с пометкой", async () => {
+      const subscription = createTopicsSubscription({ replay: 2 });
+      const first = subscription.getJsonStream();
+      await connect(subscription);
+
+      latestSocket().receive(dataMessage("topic1", 1));
+      latestSocket().receive(dataMessage("topic1", 2));
+      latestSocket().receive(dataMessage("topic2", 3));
+      await read(first, 3);
+
+      const late = subscription.getJsonStream();
+      latestSocket().receive(dataMessage("topic1", 4));
+
+      expect(await read(late, 3)).toEqual([
+        ["topic1", 2, true],
+        ["topic2", 3, true],
+        ["topic1", 4, undefined],
+      ]);
+
+      subscription.close();
+    });
+
+    test("хранит сообщения для каждого топика отдельно", async () => {
+      const subscription = createTopicsSubscription({
+        replay: { size: 1, perTopic: true },
+      });
+      const first = subscription.getJsonStream();
+      await connect(subscription);
+
+      latestSocket().receive(dataMessage("topic2", 1));
+      latestSocket().receive(dataMessage("topic1", 2));
+      latestSocket().receive(dataMessage("topic1", 3));
+      await read(first, 3);
+
+      expect(await read(subscription.getJsonStream(), 2)).toEqual([
+        ["topic2", 1, true],
+        ["topic1", 3, true],
+      ]);
+
+      subscription.close();
+    });
+  });
+
+  describe("фильтрация потоков", () => {
+    const createTopicsSubscription = () => {
+      return new TokenSubscription(
+        {
+          channel: channel("test-channel")
+            .addTopic(topic("topic1"))
+            .addTopic(topic("topic2"))(),
+          topics: ["topic1", "topic2"],
+          key: "test-key",
+        },
+        "https://api.test.com",
+        undefined,
+        undefined,
+      );
+    };
+
+    const messages = [
+      { kind: "data", topic: "topic1", run_id: "run-1", data: { n: 1 } },
+      { kind: "data", topic: "topic2", run_id: "run-1", data: { n: 2 } },
+      { kind: "data", topic: "topic1", run_id: "run-2", data: { n: 3 } },
+      { kind: "run", run_id: "run-1", data: { status: "started" } },
+    ].map((msg) => ({ channel: "test-channel", ...msg }));
+
+    const receiveAll = async (
+      options: Parameters<TokenSubscription["getJsonStream"]>[0],
+    ) => {
+      const subscription = createTopicsSubscription();
+      const stream = subscription.getJsonStream(options);
+      await connect(subscription);
+
+      messages.forEach((msg) => latestSocket().receive(msg));
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      subscription.close();
+
+      const received: unknown[] = [];
+      for await (const msg of stream) {
+        received.push(msg.kind === "run" ? "run" : msg.data.n);
+      }
+      return received;
+    };
+
+    test("по топикам", async () => {
+      expect(await receiveAll({ topics: ["topic1"] })).toEqual([1, 3]);
+    });
+
+    test("по запуску", async () => {
+      expect(await receiveAll({ runId: "run-1" })).toEqual([1, 2]);
+      expect(
+        await receiveAll({ runId: "run-1", kinds: ["data", "run"] }),
+      ).toEqual([1, 2, "run"]);
+    });
+
+    test("по типу сообщения", async () => {
+      expect(await receiveAll({ kinds: ["run"] })).toEqual(["run"]);
+    });
+
+    test("по функции и в сочетании с другими условиями", async () => {
+      expect(
+        await receiveAll({
+          runId: "run-1",
+          filter: (msg) => msg.kind === "data" && msg.data.n > 1,
+        }),
+      ).toEqual([2]);
+    });
+
+    test("не ставит в очередь неподходящие сообщения", async () => {
+      const subscription = createTopicsSubscription();
+      const stream = subscription.getJsonStream({
+        topics: ["topic2"],
+        highWaterMark: 1,
+        overflow: "drop-newest",
+      });
+      await connect(subscription);
+
+      messages.forEach((msg) => latestSocket().receive(msg));
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(subscription.getDroppedCount(stream)).toBe(0);
+      subscription.close();
+    });
+  });
+
+  describe("кодированные потоки", () => {
+    const readText = async (stream: ReadableStream<Uint8Array>) => {
+      const decoder = new TextDecoder();
+      let text = "";
+      for await (const chunk of stream) {
+        text += decoder.decode(chunk, { stream: true });
+      }
+      return text;
+    };
+
+    const receiveMessages = async (subscription: TokenSubscription) => {
+      await connect(subscription);
+
+      latestSocket().receive({
+        kind: "data",
+        channel: "test-channel",
+        topic: "topic1",
+        data: { n: 1 },
+        created_at: "2024-01-01T00:00:00.000Z",
+        seq: 1,
+      });
+      latestSocket().receive({
+        kind: "run",
+        channel: "test-channel",
+        run_id: "run-1",
+        data: { status: "started" },
+        created_at: "2024-01-01T00:00:01.000Z",
+        seq: 2,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      subscription.close();
+    };
+
+    test("отправляет события SSE с топиком и курсором", async () => {
+      const subscription = createSubscription();
+      const stream = subscription.getEncodedStream({
+        retry: 5000,
+        kinds: ["data", "run"],
+      });
+      await receiveMessages(subscription);
+
+      const events = (await readText(stream)).split("\n\n");
+
+      expect(events[0]).toBe("retry: 5000");
+      expect(events[1]).toMatch(
+        /^event: topic1\nid: 1704067200000:1\ndata: \{.*\}$/,
+      );
+      expect(JSON.parse(events[1]!.split("data: ")[1]!)).toMatchObject({
+        topic: "topic1",
+        data: { n: 1 },
+      });
+      expect(events[2]).toMatch(/^event: run\nid: 1704067201000:2\ndata: /);
+      expect(events.at(-1)).toBe("");
+    });
+
+    test("отправляет курсор и для сообщений datastream", async () => {
+      const subscription = createSubscription();
+      const stream = subscription.getEncodedStream();
+      await connect(subscription);
+
+      const message = (kind: string, seq: number) => ({
+        kind,
+        channel: "test-channel",
+        topic: "topic1",
+        data: kind === "chunk" ? "a" : "s1",
+        created_at: "2024-01-01T00:00:00.000Z",
+        seq,
+        ...(kind === "chunk" ? { stream_id: "s1" } : {}),
+      });
+
+      latestSocket().receive(message("datastream-start", 1));
+      latestSocket().receive(message("chunk", 2));
+      latestSocket().receive(message("datastream-end", 3));
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      subscription.close();
+
+      const ids = (await readText(stream))
+        .split("\n")
+        .filter((line) => line.startsWith("id: "));
+
+      expect(ids).toEqual([
+        "id: 1704067200000:1",
+        "id: 1704067200000:2",
+        "id: 1704067200000:3",
+      ]);
+    });
+
+    test("периодически отправляет keepalive", async () => {
+      vi.useFakeTimers();
+      const subscription = createSubscription();
+      const stream = subscription.getEncodedStream({ keepAliveInterval: 100 });
+      const reader = stream.getReader();
+      const decoder = new TextDecoder();
+
+      const first = await reader.read();
+      expect(decoder.decode(first.value)).toBe("retry: 1000\n\n");
+
+      vi.advanceTimersByTime(100);
+      const second = await reader.read();
+      expect(decoder.decode(second.value)).toBe(": keepalive\n\n");
+
+      await reader.cancel();
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    test("getNdjsonStream отправляет JSON построчно", async () => {
+      const subscription = createSubscription();
+      const stream = subscription.getNdjsonStream({ kinds: ["data", "run"] });
+      await receiveMessages(subscription);
+
+      const lines = (await readText(stream)).split("\n");
+
+      expect(lines).toHaveLength(3);
+      expect(JSON.parse(lines[0]!)).toMatchObject({ topic: "topic1" });
+      expect(JSON.parse(lines[1]!)).toMatchObject({ kind: "run" });
+      expect(lines[2]).toBe("");
+    });
+
+    test("по умолчанию не отправляет сообщения жизненного цикла", async () => {
+      const subscription = createSubscription();
+      const encoded = subscription.getEncodedStream();
+      const ndjson = subscription.getNdjsonStream();
+      const byTopic = subscription.getNdjsonStream({
+        topics: ["other"],
+        kinds: ["data", "run"],
+      });
+      await receiveMessages(subscription);
+
+      const events = (await readText(encoded)).split("\n\n");
+      expect(events).toHaveLength(3);
+      expect(events[1]).toMatch(/^event: topic1\n/);
+
+      const lines = (await readText(ndjson)).split("\n");
+      expect(lines).toHaveLength(2);
+      expect(JSON.parse(lines[0]!)).toMatchObject({ kind: "data" });
+
+      // Lifecycle messages have no topic, so a topic filter excludes them
+      expect(await readText(byTopic)).toBe("");
+    });
+
+    test("closeStream закрывает поток SSE", async () => {
+      const subscription = createSubscription();
+      const stream = subscription.getEncodedStream();
+      await connect(subscription);
+
+      subscription.closeStream(stream);
+
+      expect(await readText(stream)).toBe("retry: 1000\n\n");
+      subscription.close();
+    });
+  });
+
+  describe("проверка фрагментов потока", () => {
+    const createStreamSubscription = (schema: StandardSchemaV1) =>
+      new TokenSubscription(
+        {
+          channel: channel("test-channel").addTopic(
+            topic("tokens").stream(schema),
+          )(),
+          topics: ["tokens"],
+          key: "test-key",
+        },
+        "https://api.test.com",
+        undefined,
+        undefined,
+      );
+
+    const message = (kind: string, data: unknown) => ({
+      kind,
+      channel: "test-channel",
+      topic: "tokens",
+      data,
+      ...(kind === "chunk" ? { stream_id: "s1" } : {}),
+    });
+
+    test("проверяет и преобразует фрагменты по схеме топика", async () => {
+      const subscription = createStreamSubscription(
+        z.string().transform((s) => s.toUpperCase()),
+      );
+      const messages = subscription.getJsonStream({
+        kinds: ["datastream-start"],
+      });
+      await connect(subscription);
+
+      latestSocket().receive(message("datastream-start", "s1"));
+      latestSocket().receive(message("chunk", "a"));
+      latestSocket().receive(message("chunk", "b"));
+      latestSocket().receive(message("datastream-end", "s1"));
+      await flush();
+
+      const { value: start } = await messages.getReader().read();
+      const chunks: unknown[] = [];
+      for await (const chunk of (start as { stream: ReadableStream }).stream) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toEqual(["A", "B"]);
+      subscription.close();
+    });
+
+    test("прерывает поток с ошибкой, если фрагмент не прошёл проверку", async () => {
+      const subscription = createStreamSubscription(z.string());
+      const messages = subscription.getJsonStream({
+        kinds: ["datastream-start"],
+      });
+      await connect(subscription);
+
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+      latestSocket().receive(message("datastream-start", "s1"));
+      latestSocket().receive(message("chunk", "a"));
+      latestSocket().receive(message("chunk", 1));
+      latestSocket().receive(message("chunk", "b"));
+      latestSocket().receive(message("datastream-end", "s1"));
+      await flush();
+
+      const { value: start } = await messages.getReader().read();
+      const reader = (start as { stream: ReadableStream }).stream.getReader();
+      await expect(reader.read()).resolves.toEqual({ done: false, value: "a" });
+      await expect(reader.read()).rejects.toMatchObject({
+        name: "StreamInterruptedError",
+        streamId: "s1",
+        chunksReceived: 1,
+        reason: "invalid",
+      });
+      expect(errorSpy).toHaveBeenCalledTimes(1);
+      errorSpy.mockRestore();
+      subscription.close();
+    });
+
+    test("сохраняет порядок фрагментов при асинхронной проверке", async () => {
+      // Takes longer to validate the first chunk than the rest of the stream
+      // takes to arrive
+      const subscription = createStreamSubscription({
+        "~standard": {
+          version: 1,
+          vendor: "test",
+          validate: (value) =>
+            value === "a"
+              ? new Promise((resolve) => setTimeout(() => resolve({ value })))
+              : { value },
+        },
+      });
+      const messages = subscription.getJsonStream({
+        kinds: ["datastream-start"],
+      });
+      await connect(subscription);
+
+      latestSocket().receive(message("datastream-start", "s1"));
+      latestSocket().receive(message("chunk", "a"));
+      latestSocket().receive(message("chunk", "b"));
+      latestSocket().receive(message("datastream-end", "s1"));
+      await flush();
+
+      const { value: start } = await messages.getReader().read();
+      const chunks: unknown[] = [];
+      for await (const chunk of (start as { stream: ReadableStream }).stream) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toEqual(["a", "b"]);
+      subscription.close();
+    });
+
+    test("прерывает незавершённый поток с ошибкой при разрыве соединения", async () => {
+      vi.useFakeTimers();
+      const subscription = createSubscription({ retry: { initialDelay: 100 } });
+      const messages = subscription.getJsonStream({
+        kinds: ["datastream-start"],
+      });
+      await connect(subscription);
+
+      const message = (kind: string, data: unknown) => ({
+        kind,
+        channel: "test-channel",
+        topic: "topic1",
+        data,
+        ...(kind === "chunk" ? { stream_id: "s1" } : {}),
+      });
+
+      latestSocket().receive(message("datastream-start", "s1"));
+      latestSocket().receive(message("chunk", "a"));
+      await flush();
+      latestSocket().drop();
+
+      const { value: start } = await messages.getReader().read();
+      const reader = (start as { stream: ReadableStream }).stream.getReader();
+      await expect(reader.read()).resolves.toEqual({ done: false, value: "a" });
+      await expect(reader.read()).rejects.toMatchObject({
+        name: "StreamInterruptedError",
+        streamId: "s1",
+        chunksReceived: 1,
+        reason: "disconnected",
+      });
+      subscription.close();
+    });
+  });
+});
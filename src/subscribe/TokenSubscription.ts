@@ -3,72 +3,487 @@ import { api } from "../api";
 import { getEnvVar } from "../env";
 import { topic } from "../topic";
 import { Realtime } from "../types";
-import { createDeferredPromise, parseAsBoolean } from "../util";
-import { StreamFanout } from "./StreamFanout";
+import {
+  createDeferredPromise,
+  getJwtExpiry,
+  parseAsBoolean,
+  withAbortSignal,
+} from "../util";
+import type { ChunkStreamsOptions } from "./ChunkStreams";
+import { toEventId } from "./cursor";
+import { MessageHandler, type ReceivedMessage } from "./MessageHandler";
+import { getRetryDelay, resolveRetryPolicy } from "./retry";
+import { SseSocket } from "./SseSocket";
+import { type ReplayOptions, StreamFanout } from "./StreamFanout";
+
+/**
+ * Options for a {@link TokenSubscription}
+ */
+export interface TokenSubscriptionOptions extends ChunkStreamsOptions {
+  /**
+   * Policy used to reconnect after the connection drops unexpectedly
+   */
+  retry?: Realtime.Subscribe.RetryPolicy;
+
+  /**
+   * Fetch a fresh token when the current one has expired or been rejected.
+   *
+   * If not given, a new token is minted using the signing key when one is
+   * available.
+   */
+  refreshToken?: Realtime.Subscribe.RefreshToken;
+
+  /**
+   * Resume from a previously delivered message, asking the server to replay
+   * anything published since.
+   *
+   * Sequence numbers are counted per channel, so when subscribing to several
+   * channels only the cursor's time is used.
+   */
+  cursor?: Realtime.Subscribe.Cursor;
+
+  /**
+   * Called when messages were missed and could not be replayed, for example
+   * because the server no longer has them.
+   */
+  onGap?: (gap: Realtime.Subscribe.Gap) => void;
+
+  /**
+   * Drop messages with an ID that has already been delivered, such as those
+   * published again by a retried step. Pass the number of recent IDs to
+   * remember, or `false` to deliver every message. Defaults to 1000.
+   */
+  dedupe?: boolean | number;
+
+  /**
+   * Keep recent messages and deliver them first to any stream created later,
+   * flagged with `replayed: true`. Pass the number of messages to keep, or
+   * options to also limit how old they can be. Disabled by default.
+   *
+   * Streamed messages are never replayed, as their streams can only be read
+   * once.
+   */
+  replay?: number | Realtime.Subscribe.ReplayOptions;
+
+  /**
+   * Treat the connection as dead and reconnect if nothing, not even a ping, is
+   * received from the server for this many milliseconds. Disabled by default.
+   */
+  heartbeatTimeout?: number;
+
+  /**
+   * Ping the server at this interval in milliseconds to measure the round-trip
+   * time of the connection. Disabled by default.
+   */
+  pingInterval?: number;
+
+  /**
+   * Abort any token fetch or connection in progress and close the
+   * subscription.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * The WebSocket implementation to connect with, such as `WebSocket` from the
+   * `ws` package. Defaults to the global `WebSocket`.
+   *
+   * To pass options such as headers or an agent, give a subclass that sets
+   * them in its constructor.
+   */
+  WebSocket?: Realtime.Subscribe.WebSocketConstructor;
+
+  /**
+   * How to connect to the server:
+   *
+   * - `websocket`: connect using a WebSocket (default)
+   * - `sse`: receive messages over Server-Sent Events, for environments where
+   *   WebSocket upgrades are blocked
+   * - `auto`: use a WebSocket, switching to Server-Sent Events if the upgrade
+   *   fails
+   */
+  transport?: "websocket" | "sse" | "auto";
+}
+
+/**
+ * WebSocket ready states, which are the same for every implementation.
+ */
+const readyStates = {
+  CONNECTING: 0,
+  OPEN: 1,
+  CLOSING: 2,
+  CLOSED: 3,
+} as const;
+
+/**
+ * WebSocket close codes that signal the token was rejected, meaning we need a
+ * fresh one before reconnecting.
+ *
+ * 1008 is the standard "policy violation" code, 3000/3003 are the registered
+ * "unauthorized"/"forbidden" codes, and 4001/4003/4401/4403 are commonly used
+ * application-level equivalents of HTTP 401/403.
+ */
+const authCloseCodes = new Set([1008, 3000, 3003, 4001, 4003, 4401, 4403]);
+
+/**
+ * How long to keep a replaced connection open after switching to a new one,
+ * during which messages delivered on both are deduplicated.
+ */
+const handoverGracePeriod = 5_000;
+
+/**
+ * How many recent message IDs to remember for deduplication by default.
+ */
+const defaultDedupeSize = 1_000;
+
+/**
+ * How often to send a comment on encoded streams by default, so that proxies
+ * don't close them while they're quiet.
+ */
+const defaultKeepAliveInterval = 15_000;
+
+/**
+ * Message kinds that are delivered to streams and so move the cursor.
+ */
+const cursorKinds = new Set<Realtime.Message.Raw["kind"]>([
+  "data",
+  "datastream-start",
+  "datastream-end",
+  "chunk",
+  "run",
+  "step",
+  "event",
+]);
+
+/**
+ * Message kinds sent by Inngest as function runs progress, which are only
+ * delivered to streams that ask for them.
+ */
+const lifecycleKinds = new Set<Realtime.Message.Any["kind"]>([
+  "run",
+  "step",
+  "event",
+]);
+
+/**
+ * Message kinds that are specific to a single connection and so are never
+ * deduplicated across connections.
+ */
+const nonDedupedKinds = new Set<Realtime.Message.Raw["kind"]>([
+  "ping",
+  "pong",
+  "closing",
+  "sub",
+  "unsub",
+]);
+
+/**
+ * Frame a message as a Server-Sent Event named after its topic, or its kind if
+ * it has no topic, using its cursor as the event ID.
+ *
+ * See https://html.spec.whatwg.org/multipage/server-sent-events.html
+ */
+const toServerSentEvent = (msg: Realtime.Message.Any): string => {
+  const fields = [`event: ${msg.topic ?? msg.kind}`];
+
+  if (msg.cursor) {
+    fields.push(`id: ${toEventId(msg.cursor)}`);
+  }
+
+  fields.push(`data: ${JSON.stringify(msg)}`);
+
+  return `${fields.join("\n")}\n\n`;
+};
+
+/**
+ * Convert a message from the server into the shape shared with proxied
+ * messages
+ */
+const toReceivedMessage = (
+  msg: Realtime.Message.Raw,
+  cursor: Realtime.Subscribe.Cursor | undefined,
+): ReceivedMessage => ({
+  kind: msg.kind,
+  channel: msg.channel,
+  topic: msg.topic,
+  data: msg.data,
+  // Datastreams are started and ended by messages with their ID as data
+  streamId:
+    msg.kind === "datastream-start" || msg.kind === "datastream-end"
+      ? msg.data
+      : msg.stream_id,
+  runId: msg.run_id,
+  fnId: msg.fn_id,
+  envId: msg.env_id,
+  createdAt: msg.created_at,
+  cursor,
+});
+
+/**
+ * Get the options for replaying recent messages to new streams
+ */
+const getReplayOptions = (
+  replay: number | Realtime.Subscribe.ReplayOptions,
+): ReplayOptions<Realtime.Message.Any> => {
+  const { size, maxAge, perTopic } =
+    typeof replay === "number" ? { size: replay } : replay;
+
+  return {
+    size,
+    maxAge,
+    key: (msg) => {
+      if (msg.kind !== "data" && !lifecycleKinds.has(msg.kind)) {
+        return;
+      }
+
+      return perTopic
+        ? JSON.stringify([msg.channel, msg.topic ?? msg.kind])
+        : "";
+    },
+    mark: (msg) => ({ ...msg, replayed: true }),
+  };
+};
+
+/**
+ * A channel being subscribed to and the topics currently being delivered for
+ * it
+ */
+type ActiveChannel = {
+  definition: Realtime.Channel | string;
+  topics: Map<string, Realtime.Topic.Definition>;
+};
+
+/**
+ * Get the channels and topics covered by either kind of token.
+ */
+export const getTokenChannels = (
+  token: Realtime.Subscribe.AnyToken,
+): { channel: Realtime.Channel | string; topics: string[] }[] => {
+  return "channels" in token ? token.channels : [token];
+};
+
+export const getChannelId = (channel: Realtime.Channel | string): string => {
+  return typeof channel === "string" ? channel : channel.name;
+};
+
+/**
+ * Combine the conditions of a JSON stream into a single filter. Lifecycle
+ * messages are left out unless their kinds are asked for.
+ */
+export const getMessageFilter = ({
+  topics,
+  runId,
+  kinds,
+  filter,
+}: Pick<
+  Realtime.Subscribe.JsonStreamOptions,
+  "topics" | "runId" | "kinds" | "filter"
+>): ((msg: Realtime.Message.Any) => boolean) => {
+  const filters = [
+    topics &&
+      ((msg: Realtime.Message.Any) =>
+        msg.topic !== undefined && topics.includes(msg.topic)),
+    runId && ((msg: Realtime.Message.Any) => msg.runId === runId),
+    kinds
+      ? (msg: Realtime.Message.Any) => kinds.includes(msg.kind)
+      : (msg: Realtime.Message.Any) => !lifecycleKinds.has(msg.kind),
+    filter,
+  ].filter((fn) => typeof fn === "function");
+
+  return (msg) => filters.every((fn) => fn(msg));
+};
 
 /**
  * Realtime channel subscription via WebSocket
  */
 export class TokenSubscription {
   #apiBaseUrl?: string;
-  #channelId: string;
   #debug = debug("inngest:realtime");
   #encoder = new TextEncoder();
-  #fanout = new StreamFanout<Realtime.Message>();
+  #fanout: StreamFanout<Realtime.Message.Any>;
   #running = false;
   #closed = false;
-  #topics: Map<string, Realtime.Topic.Definition>;
+  #channels = new Map<string, ActiveChannel>();
   #ws: WebSocket | null = null;
   #signingKey: string | undefined;
   #signingKeyFallback: string | undefined;
+  #retryPolicy: Required<Realtime.Subscribe.RetryPolicy>;
   #reconnectAttempts = 0;
-  #maxReconnectAttempts = 5;
-  #reconnectDelay = 1000;
+  #lastReconnectDelay: number | undefined;
+  #lastCloseInfo: Realtime.Subscribe.CloseInfo | null = null;
+  #refreshToken: Realtime.Subscribe.RefreshToken | undefined;
+  #tokenStale = false;
+  #initialCursor: Realtime.Subscribe.Cursor | undefined;
+
+  /**
+   * Position of the last message delivered on each channel, as sequence
+   * numbers are counted per channel
+   */
+  #cursors = new Map<string, Realtime.Subscribe.Cursor>();
+  #onGap: ((gap: Realtime.Subscribe.Gap) => void) | undefined;
+  #dedupeSize: number;
   #connectionPromise: Promise<void> | null = null;
   #reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  #handoverPromise: Promise<boolean> | null = null;
+  #handoverWs: WebSocket | null = null;
+  #retiringWs: WebSocket | null = null;
+  #handoverRetireTimer: ReturnType<typeof setTimeout> | null = null;
+  #heartbeatTimeout: number | undefined;
+  #heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+  #pingInterval: number | undefined;
+  #pingTimer: ReturnType<typeof setInterval> | null = null;
+  #pingSentAt: number | null = null;
+  #roundTripTime: number | undefined;
+  #state: Realtime.Subscribe.State = "idle";
+  #pendingOpens = new WeakMap<WebSocket, (reason: Error) => void>();
+  #signal: AbortSignal | undefined;
+  #WebSocket: Realtime.Subscribe.WebSocketConstructor | undefined;
+  #transport: "websocket" | "sse";
+  #canFallBackToSse: boolean;
+  #lastEventId: string | undefined;
+  #onAbort = () => this.#close("aborted");
+  #encodedStreams = new WeakMap<ReadableStream, ReadableStream>();
+  #listeners = new Map<
+    keyof Realtime.Subscribe.Events,
+    Set<(payload: never) => void>
+  >();
 
   /**
-   * Map of stream IDs to their streams and controllers
+   * While switching connections, tracks how many times each payload has been
+   * delivered overall and seen on each socket, so that messages sent on both
+   * sockets are only delivered once.
    */
-  #chunkStreams = new Map<
-    string,
-    { stream: ReadableStream; controller: ReadableStreamDefaultController }
-  >();
+  #handoverDedupe: {
+    delivered: Map<string, number>;
+    seen: WeakMap<WebSocket, Map<string, number>>;
+  } | null = null;
+
+  /**
+   * IDs of recently delivered messages, oldest first
+   */
+  #seenIds = new Set<string>();
+
+  /**
+   * Validates messages and rebuilds their datastreams
+   */
+  #messages: MessageHandler;
 
   constructor(
     /**
      * Subscription token
      */
-    public token: Realtime.Subscribe.Token,
+    public token: Realtime.Subscribe.AnyToken,
     apiBaseUrl: string | undefined,
     signingKey: string | undefined,
     signingKeyFallback: string | undefined,
+    options: TokenSubscriptionOptions & {
+      /**
+       * Called once every stream reading from this subscription has been
+       * closed or cancelled.
+       */
+      onIdle?: () => void;
+    } = {},
   ) {
+    this.#fanout = new StreamFanout<Realtime.Message.Any>(
+      options.onIdle,
+      options.replay === undefined
+        ? undefined
+        : getReplayOptions(options.replay),
+    );
     this.#apiBaseUrl = apiBaseUrl;
     this.#signingKey = signingKey;
     this.#signingKeyFallback = signingKeyFallback;
+    this.#retryPolicy = resolveRetryPolicy(options.retry);
+    this.#messages = new MessageHandler(
+      this.#fanout,
+      (channel) => this.#channels.get(channel)?.topics,
+      options,
+    );
+    this.#refreshToken = options.refreshToken;
+    this.#initialCursor = options.cursor;
+    this.#onGap = options.onGap;
+    this.#dedupeSize =
+      typeof options.dedupe === "number"
+        ? options.dedupe
+        : options.dedupe === false
+          ? 0
+          : defaultDedupeSize;
+    this.#heartbeatTimeout = options.heartbeatTimeout;
+    this.#pingInterval = options.pingInterval;
+    this.#signal = options.signal;
+    this.#WebSocket = options.WebSocket;
+    this.#transport = options.transport === "sse" ? "sse" : "websocket";
+    this.#canFallBackToSse = options.transport === "auto";
+
+    for (const { channel, topics } of getTokenChannels(token)) {
+      const channelId = getChannelId(channel);
+      const active = this.#channels.get(channelId) ?? {
+        definition: channel,
+        topics: new Map<string, Realtime.Topic.Definition>(),
+      };
 
-    if (typeof token.channel === "string") {
-      this.#channelId = token.channel;
+      for (const name of topics) {
+        active.topics.set(name, this.#resolveTopic(channel, name));
+      }
+
+      this.#channels.set(channelId, active);
+    }
 
-      this.#topics = this.token.topics.reduce<
-        Map<string, Realtime.Topic.Definition>
-      >((acc, name) => {
-        acc.set(name, topic(name));
+    // A cursor's sequence number only makes sense for the channel it came
+    // from, so it can only be tied to a channel if there's just the one
+    const [onlyChannel, ...otherChannels] = this.#channels.keys();
+    if (options.cursor && onlyChannel !== undefined && !otherChannels.length) {
+      this.#cursors.set(onlyChannel, options.cursor);
+    }
 
-        return acc;
-      }, new Map<string, Realtime.Topic.Definition>());
+    if (this.#signal?.aborted) {
+      this.#close("aborted");
     } else {
-      this.#channelId = token.channel.name;
+      this.#signal?.addEventListener("abort", this.#onAbort, { once: true });
+    }
+  }
 
-      this.#topics = this.token.topics.reduce<
-        Map<string, Realtime.Topic.Definition>
-      >((acc, name) => {
-        acc.set(name, token.channel.topics[name] ?? topic(name));
+  /**
+   * Get the definition for the given topic, using the channel's definition if
+   * it has one.
+   */
+  #resolveTopic(
+    channel: Realtime.Channel | string,
+    name: string,
+  ): Realtime.Topic.Definition {
+    if (typeof channel === "string") {
+      return topic(name);
+    }
 
-        return acc;
-      }, new Map<string, Realtime.Topic.Definition>());
+    return channel.topics[name] ?? topic(name);
+  }
+
+  /**
+   * Get the channel IDs and topics covered by the current token.
+   */
+  #getTokenCoverage(): { channel: string; topics: string[] }[] {
+    return getTokenChannels(this.token).map(({ channel, topics }) => ({
+      channel: getChannelId(channel),
+      topics,
+    }));
+  }
+
+  /**
+   * Get the channel to change the topics of, defaulting to the only channel if
+   * there is just one.
+   */
+  #resolveChannelId(channelId: string | undefined): string {
+    if (channelId) {
+      return channelId;
+    }
+
+    const [onlyChannelId, ...others] = this.#channels.keys();
+    if (!onlyChannelId || others.length) {
+      throw new Error(
+        "A channel must be given when changing the topics of a multi-channel subscription",
+      );
     }
+
+    return onlyChannelId;
   }
 
   private async getWsUrl(token: string): Promise<URL> {
@@ -101,6 +516,16 @@ export class TokenSubscription {
     url.protocol = url.protocol === "http:" ? "ws:" : "wss:";
     url.searchParams.set("token", token);
 
+    // Ask the server to replay anything we missed
+    const cursor = this.cursor;
+    if (cursor) {
+      url.searchParams.set("since", cursor.createdAt.toISOString());
+
+      if (cursor.seq !== undefined) {
+        url.searchParams.set("since_seq", String(cursor.seq));
+      }
+    }
+
     return url;
   }
 
@@ -108,6 +533,8 @@ export class TokenSubscription {
    * Establish WebSocket connection
    */
   public async connect() {
+    this.#signal?.throwIfAborted();
+
     // Don't connect if instance was explicitly closed
     if (this.#closed) {
       return;
@@ -118,170 +545,656 @@ export class TokenSubscription {
       return this.#connectionPromise;
     }
 
-    this.#connectionPromise = this.#connect();
+    this.#connectionPromise = this.#connect()
+      .catch((err) => {
+        if (this.#closed) {
+          throw err;
+        }
+
+        // A failed first connection leaves nothing to reconnect, so we're back
+        // to where we started.
+        if (this.#state === "connecting") {
+          this.#setState("idle");
+        }
+
+        this.#emit("error", err);
+        throw err;
+      })
+      .finally(() => {
+        this.#connectionPromise = null;
+      });
+
     return this.#connectionPromise;
   }
 
   async #connect() {
     // Guard against concurrent connection attempts
-    if (this.#running && this.#ws?.readyState === WebSocket.OPEN) {
+    if (this.#running && this.#ws?.readyState === readyStates.OPEN) {
       return;
     }
 
     this.#debug(
-      `Establishing connection to channel "${
-        this.#channelId
-      }" with topics ${JSON.stringify([...this.#topics.keys()])}...`,
+      `Establishing connection to channels ${JSON.stringify(this.channels)}...`,
     );
 
-    if (typeof WebSocket === "undefined") {
-      throw new Error("WebSocket is not supported in current environment");
+    if (this.#state !== "reconnecting") {
+      this.#setState("connecting");
+    }
+
+    if (this.#transport === "websocket" && !this.#getWebSocket()) {
+      if (!this.#canFallBackToSse) {
+        throw new Error(
+          "WebSocket is not supported in current environment; pass a `WebSocket` implementation to use instead",
+        );
+      }
+
+      this.#debug("WebSocket is not supported; using Server-Sent Events");
+      this.#transport = "sse";
+    }
+
+    const key = await this.#getKey();
+
+    // We may have been closed while fetching a token
+    if (this.#closed) {
+      this.#signal?.throwIfAborted();
+      return;
+    }
+
+    // Clean up existing connection if any
+    if (this.#ws) {
+      this.#cleanupWebSocket();
     }
 
+    try {
+      await this.#open(key);
+    } catch (err) {
+      if (this.#closed) {
+        this.#signal?.throwIfAborted();
+        return;
+      }
+
+      if (this.#transport !== "websocket" || !this.#canFallBackToSse) {
+        throw err;
+      }
+
+      // The upgrade may have been blocked by a proxy, so try receiving
+      // messages over plain HTTP instead.
+      this.#debug(
+        "WebSocket connection failed; falling back to Server-Sent Events",
+      );
+      this.#transport = "sse";
+      this.#cleanupWebSocket();
+
+      try {
+        await this.#open(key);
+      } catch (sseErr) {
+        this.#transport = "websocket";
+
+        if (this.#closed) {
+          this.#signal?.throwIfAborted();
+          return;
+        }
+
+        throw sseErr;
+      }
+
+      // The WebSocket failing doesn't mean our token was bad after all
+      this.#tokenStale = false;
+    }
+
+    this.#debug("WebSocket connection established");
+    const reconnectAttempts = this.#reconnectAttempts;
+    const reconnected = this.#state === "reconnecting";
+    this.#reconnectAttempts = 0;
+    this.#lastReconnectDelay = undefined;
+    this.#running = true;
+    this.#startHeartbeat();
+    this.#setState("active");
+
+    if (reconnected) {
+      this.#emit("reconnected", { attempts: reconnectAttempts });
+    }
+
+    // Our token may cover topics that have since been removed, so make sure
+    // the server knows we no longer want them.
+    for (const { channel, topics } of this.#getTokenCoverage()) {
+      const activeTopics = this.#channels.get(channel)?.topics;
+      const inactiveTopics = topics.filter((name) => !activeTopics?.has(name));
+
+      if (inactiveTopics.length) {
+        this.#send({
+          kind: "unsub",
+          channel,
+          data: { topics: inactiveTopics },
+        });
+      }
+    }
+  }
+
+  /**
+   * Get the key to connect with, fetching a new one if we have none or the
+   * current one is stale.
+   */
+  async #getKey(): Promise<string> {
     let key = this.token.key;
     if (!key) {
       this.#debug(
         "No subscription token key passed; attempting to retrieve one automatically...",
       );
 
-      key = (
-        await this.lazilyGetSubscriptionToken({
-          ...this.token,
-          signingKey: this.#signingKey,
-          signingKeyFallback: this.#signingKeyFallback,
-        })
-      ).key;
+      key = await this.#fetchKey();
 
       if (!key) {
         throw new Error(
           "No subscription token key provided and failed to retrieve one automatically",
         );
       }
+    } else if (this.#isTokenStale(key) && this.#canRefreshToken()) {
+      this.#debug("Subscription token is stale; refreshing...");
+
+      key = await this.#fetchKey();
+
+      if (!key) {
+        throw new Error("Failed to refresh subscription token");
+      }
     }
 
+    this.#tokenStale = false;
+    if (key !== this.token.key) {
+      this.token = { ...this.token, key };
+    }
+
+    return key;
+  }
+
+  /**
+   * Open a new connection using the given key and make it the current one.
+   */
+  async #open(key: string) {
+    const { ws, open } = await this.#openSocket(key);
+    this.#ws = ws;
+
+    await open;
+  }
+
+  /**
+   * Get the WebSocket implementation to use, falling back to the global one if
+   * none was given.
+   */
+  #getWebSocket(): typeof WebSocket | undefined {
+    return (this.#WebSocket ?? globalThis.WebSocket) as
+      typeof WebSocket | undefined;
+  }
+
+  /**
+   * Create a new WebSocket using the given key. The returned `open` promise
+   * resolves once the socket is open, or rejects if it closes before then.
+   */
+  async #openSocket(
+    key: string,
+  ): Promise<{ ws: WebSocket; open: Promise<void> }> {
     const ret = createDeferredPromise<void>();
+    let opened = false;
 
-    try {
-      // Clean up existing connection if any
-      if (this.#ws) {
-        this.#cleanupWebSocket();
+    const url = await this.getWsUrl(key);
+    let ws: WebSocket;
+
+    if (this.#transport === "sse") {
+      url.protocol = url.protocol === "ws:" ? "http:" : "https:";
+      ws = new SseSocket(url, this.#lastEventId) as unknown as WebSocket;
+    } else {
+      const WebSocketImpl = this.#getWebSocket();
+      if (!WebSocketImpl) {
+        throw new Error("WebSocket is not supported in current environment");
       }
 
-      this.#ws = new WebSocket(await this.getWsUrl(key));
+      ws = new WebSocketImpl(url);
+    }
 
-      this.#ws.onopen = () => {
-        this.#debug("WebSocket connection established");
-        this.#reconnectAttempts = 0;
-        this.#running = true;
-        // Clear connection promise only after successful connection
-        this.#connectionPromise = null;
-        ret.resolve();
-      };
+    this.#pendingOpens.set(ws, ret.reject);
+
+    ws.onopen = () => {
+      opened = true;
+      this.#pendingOpens.delete(ws);
+      ret.resolve();
+    };
+
+    ws.onmessage = async (event) => {
+      await this.#handleMessage(event, ws);
+    };
+
+    ws.onerror = (event) => {
+      // A `close` event always follows an `error` event, so we leave
+      // rejecting or reconnecting to that handler.
+      this.#debug("WebSocket error observed:", event);
+    };
+
+    ws.onclose = (event) => {
+      this.#debug("WebSocket closed:", event.code, event.reason);
+
+      // If we never opened, this is a failed connection attempt and whoever
+      // is awaiting the socket decides what to do next.
+      if (!opened) {
+        // Browsers don't expose why an upgrade failed, so assume the worst
+        // and use a fresh token for the next attempt.
+        this.#tokenStale = true;
+        this.#lastCloseInfo = event;
+        this.#pendingOpens.delete(ws);
+        ret.reject(new Error("WebSocket connection error"));
+        return;
+      }
 
-      this.#ws.onmessage = async (event) => {
-        await this.#handleMessage(event);
-      };
+      // A socket we've already replaced closing is expected.
+      if (ws !== this.#ws) {
+        this.#debug("Replaced WebSocket connection closed");
+        return;
+      }
 
-      this.#ws.onerror = (event) => {
-        this.#debug("WebSocket error observed:", event);
-        ret.reject(new Error("WebSocket connection error"));
-      };
+      this.#handleClose(event);
+    };
 
-      this.#ws.onclose = (event) => {
-        this.#debug("WebSocket closed:", event.code, event.reason);
-        this.#handleClose(event);
-      };
+    return { ws, open: ret.promise };
+  }
+
+  /**
+   * Open a replacement connection while the current one is still alive, then
+   * switch over to it, so that a server asking us to move doesn't cause a gap
+   * in messages.
+   *
+   * Resolves to `true` if we switched to the new connection.
+   */
+  #handover(): Promise<boolean> {
+    if (this.#handoverPromise) {
+      return this.#handoverPromise;
+    }
+
+    this.#handoverPromise = this.#performHandover().finally(() => {
+      this.#handoverPromise = null;
+    });
+
+    return this.#handoverPromise;
+  }
+
+  async #performHandover(): Promise<boolean> {
+    const oldWs = this.#ws;
+    if (this.#closed || !oldWs) {
+      return false;
+    }
+
+    this.#debug("Opening replacement connection...");
+
+    // Start tracking messages from both sockets so we can drop any that are
+    // delivered on both.
+    if (this.#handoverRetireTimer) {
+      clearTimeout(this.#handoverRetireTimer);
+      this.#handoverRetireTimer = null;
+      this.#retireSocket();
+    }
+    this.#handoverDedupe = { delivered: new Map(), seen: new WeakMap() };
+
+    try {
+      const { ws, open } = await this.#openSocket(await this.#getKey());
+      this.#handoverWs = ws;
+
+      await open;
+    } catch (err) {
+      this.#debug("Failed to open replacement connection:", err);
+      this.#cleanupSocket(this.#handoverWs);
+      this.#handoverWs = null;
+      this.#handoverDedupe = null;
+
+      return false;
+    }
+
+    const ws = this.#handoverWs;
+    this.#handoverWs = null;
+
+    if (this.#closed || this.#ws !== oldWs) {
+      this.#cleanupSocket(ws);
+      this.#handoverDedupe = null;
+
+      return false;
+    }
+
+    this.#debug("Switched to replacement connection");
+    this.#ws = ws;
+    this.#running = true;
+    this.#retiringWs = oldWs;
+    this.#startHeartbeat();
+
+    // Give the old connection a moment to deliver anything it has in flight
+    // before we close it ourselves and stop deduplicating.
+    this.#handoverRetireTimer = setTimeout(() => {
+      this.#handoverRetireTimer = null;
+      this.#retireSocket();
+    }, handoverGracePeriod);
+
+    return true;
+  }
+
+  /**
+   * Close the socket that was replaced during a handover and stop
+   * deduplicating messages between the two.
+   */
+  #retireSocket() {
+    this.#cleanupSocket(this.#retiringWs);
+    this.#retiringWs = null;
+    this.#handoverDedupe = null;
+  }
+
+  /**
+   * Returns `true` if the given payload has already been delivered by another
+   * socket during a handover.
+   */
+  #isHandoverDuplicate(payload: string, ws: WebSocket): boolean {
+    const dedupe = this.#handoverDedupe;
+    if (!dedupe) {
+      return false;
+    }
+
+    let seen = dedupe.seen.get(ws);
+    if (!seen) {
+      seen = new Map();
+      dedupe.seen.set(ws, seen);
+    }
+
+    const count = (seen.get(payload) ?? 0) + 1;
+    seen.set(payload, count);
+
+    if (count <= (dedupe.delivered.get(payload) ?? 0)) {
+      return true;
+    }
+
+    dedupe.delivered.set(payload, count);
+    return false;
+  }
+
+  #cleanupWebSocket() {
+    this.#cleanupSocket(this.#ws);
+    this.#ws = null;
+  }
+
+  #cleanupSocket(ws: WebSocket | null) {
+    if (!ws) return;
+
+    // Settle anything waiting for this socket to open, as it now never will
+    this.#pendingOpens.get(ws)?.(
+      new Error("WebSocket closed before it could open"),
+    );
+    this.#pendingOpens.delete(ws);
+
+    try {
+      // Remove event listeners to prevent memory leaks
+      ws.onopen = null;
+      ws.onmessage = null;
+      ws.onerror = null;
+      ws.onclose = null;
+
+      // Close connection if still open
+      if (
+        ws.readyState === readyStates.OPEN ||
+        ws.readyState === readyStates.CONNECTING
+      ) {
+        ws.close(1000, "Cleaning up connection");
+      }
     } catch (err) {
-      // Clear connection promise on error
-      this.#connectionPromise = null;
-      ret.reject(err);
+      this.#debug("Error cleaning up WebSocket:", err);
+    }
+  }
+
+  /**
+   * Start watching the current connection for silence, and start pinging the
+   * server if configured to.
+   */
+  #startHeartbeat() {
+    this.#stopHeartbeat();
+    this.#resetHeartbeat();
+
+    if (this.#pingInterval) {
+      this.#pingTimer = setInterval(() => this.#sendPing(), this.#pingInterval);
+    }
+  }
+
+  #stopHeartbeat() {
+    if (this.#heartbeatTimer) {
+      clearTimeout(this.#heartbeatTimer);
+      this.#heartbeatTimer = null;
+    }
+
+    if (this.#pingTimer) {
+      clearInterval(this.#pingTimer);
+      this.#pingTimer = null;
+    }
+
+    this.#pingSentAt = null;
+  }
+
+  /**
+   * Restart the countdown to declaring the connection dead, as we've just
+   * heard from the server.
+   */
+  #resetHeartbeat() {
+    if (!this.#heartbeatTimeout) {
+      return;
+    }
+
+    if (this.#heartbeatTimer) {
+      clearTimeout(this.#heartbeatTimer);
+    }
+
+    this.#heartbeatTimer = setTimeout(() => {
+      this.#heartbeatTimer = null;
+      this.#debug(
+        `Nothing received for ${this.#heartbeatTimeout}ms; assuming connection is dead`,
+      );
+
+      // The socket may never report closing if the network has gone away, so
+      // stop listening to it and reconnect straight away.
+      this.#cleanupWebSocket();
+      this.#handleClose({
+        code: 1006,
+        reason: "Heartbeat timeout",
+        wasClean: false,
+      });
+    }, this.#heartbeatTimeout);
+  }
+
+  #sendPing() {
+    if (this.#ws?.readyState !== readyStates.OPEN) {
+      return;
+    }
+
+    this.#pingSentAt = Date.now();
+    this.#ws.send(JSON.stringify({ kind: "ping" }));
+  }
+
+  #handleClose(event: Realtime.Subscribe.CloseInfo) {
+    // If we're part-way through switching to a new connection, only treat
+    // this as a dropped connection if that switch fails.
+    if (this.#handoverPromise && !this.#closed) {
+      this.#debug("Connection closed during handover; waiting for replacement");
+
+      void this.#handoverPromise.then((switched) => {
+        if (!switched) {
+          this.#handleClose(event);
+        }
+      });
+
+      return;
+    }
+
+    this.#running = false;
+    this.#stopHeartbeat();
+
+    // The rest of any open datastreams won't be sent on a new connection, so
+    // fail them rather than letting them look finished
+    this.#messages.interruptAll(this.#closed ? "closed" : "disconnected");
+
+    // Normal closure or user-initiated close
+    if (event.code === 1000 || this.#closed) {
+      this.#debug("Connection closed normally");
+      // End before closing streams, as closing the last one can close the
+      // whole subscription and we'd lose the reason
+      this.#end("server", event);
+      this.#fanout.close();
+      return;
+    }
+
+    if (authCloseCodes.has(event.code)) {
+      this.#debug(
+        "Connection closed due to authentication; will refresh token",
+      );
+      this.#tokenStale = true;
+    }
+
+    // Attempt reconnection for abnormal closures
+    this.#scheduleReconnect(event);
+  }
+
+  /**
+   * Whether the given key should be replaced before connecting, either because
+   * we've seen it rejected or because it has expired.
+   */
+  #isTokenStale(key: string): boolean {
+    if (this.#tokenStale) {
+      return true;
+    }
+
+    const expiry = getJwtExpiry(key);
+    return Boolean(expiry && expiry.getTime() <= Date.now());
+  }
+
+  /**
+   * Whether we have any way to get a new token.
+   */
+  #canRefreshToken(): boolean {
+    return Boolean(this.#refreshToken || this.#signingKey);
+  }
+
+  /**
+   * Fetch a new key for the given channels and topics using the user's
+   * `refreshToken` handler if given, else by minting a new token with the
+   * signing key.
+   */
+  async #fetchKey(
+    channels: {
+      channel: string;
+      topics: string[];
+    }[] = this.#getTokenCoverage(),
+  ): Promise<string | undefined> {
+    if (this.#refreshToken) {
+      const res = await withAbortSignal(
+        this.#refreshToken({ channels, signal: this.#signal }),
+        this.#signal,
+      );
+
+      return typeof res === "string" ? res : res?.key;
+    }
+
+    if (channels.some(({ channel }) => !channel)) {
+      throw new Error("Channel ID is required to create a subscription token");
     }
 
-    return ret.promise;
+    return api.getSubscriptionToken({
+      channels,
+      signingKey: this.#signingKey,
+      signingKeyFallback: this.#signingKeyFallback,
+      apiBaseUrl: this.#apiBaseUrl,
+      signal: this.#signal,
+    });
   }
 
-  #cleanupWebSocket() {
-    if (!this.#ws) return;
+  /**
+   * Send a frame over the current connection. If we're not connected, the
+   * frame is dropped, as the next connection is made with up-to-date state.
+   */
+  #send(frame: Pick<Realtime.Message.Raw, "kind" | "channel" | "data">) {
+    if (this.#ws?.readyState !== readyStates.OPEN) {
+      this.#debug(`Not connected; skipping sending "${frame.kind}" frame`);
+      return;
+    }
 
-    try {
-      // Remove event listeners to prevent memory leaks
-      this.#ws.onopen = null;
-      this.#ws.onmessage = null;
-      this.#ws.onerror = null;
-      this.#ws.onclose = null;
+    this.#ws.send(JSON.stringify(frame));
+  }
 
-      // Close connection if still open
-      if (
-        this.#ws.readyState === WebSocket.OPEN ||
-        this.#ws.readyState === WebSocket.CONNECTING
-      ) {
-        this.#ws.close(1000, "Cleaning up connection");
-      }
-    } catch (err) {
-      this.#debug("Error cleaning up WebSocket:", err);
+  /**
+   * Schedule the next reconnection attempt according to the retry policy, or
+   * close all streams if the policy says we should stop.
+   */
+  #scheduleReconnect(closeInfo: Realtime.Subscribe.CloseInfo) {
+    if (this.#closed) {
+      return;
     }
 
-    this.#ws = null;
-  }
+    const { maxAttempts, shouldRetry } = this.#retryPolicy;
+    const attempt = this.#reconnectAttempts + 1;
 
-  #handleClose(event: CloseEvent) {
-    const wasRunning = this.#running;
-    this.#running = false;
+    if (attempt > maxAttempts) {
+      this.#debug("Max reconnection attempts reached, closing streams");
+      this.#end("retries-exhausted", closeInfo);
+      this.#fanout.close();
+      return;
+    }
 
-    // Close all chunk streams
-    for (const [streamId, stream] of this.#chunkStreams.entries()) {
-      try {
-        stream.controller.close();
-      } catch (err) {
-        this.#debug(`Error closing stream ${streamId}:`, err);
-      }
+    let retry: boolean;
+    try {
+      retry = shouldRetry(closeInfo, attempt);
+    } catch (err) {
+      this.#debug("Error in shouldRetry:", err);
+      retry = false;
     }
-    this.#chunkStreams.clear();
 
-    // Normal closure or user-initiated close
-    if (event.code === 1000 || !wasRunning) {
-      this.#debug("Connection closed normally");
-      // Clear connection promise on normal close
-      this.#connectionPromise = null;
+    if (!retry) {
+      this.#debug("Retry policy declined reconnection, closing streams");
+      this.#end("retries-exhausted", closeInfo);
       this.#fanout.close();
       return;
     }
 
-    // Attempt reconnection for abnormal closures
-    if (this.#reconnectAttempts < this.#maxReconnectAttempts) {
-      this.#reconnectAttempts++;
-      const delay =
-        this.#reconnectDelay * Math.pow(2, this.#reconnectAttempts - 1);
+    this.#reconnectAttempts = attempt;
+    const delay = getRetryDelay(
+      this.#retryPolicy,
+      attempt,
+      this.#lastReconnectDelay,
+    );
+    this.#lastReconnectDelay = delay;
 
-      this.#debug(
-        `Attempting reconnection ${this.#reconnectAttempts}/${this.#maxReconnectAttempts} in ${delay}ms...`,
-      );
+    this.#debug(
+      `Attempting reconnection ${attempt}/${maxAttempts} in ${Math.round(delay)}ms...`,
+    );
+    this.#setState("reconnecting");
+    this.#emit("reconnecting", { attempt, delay, closeInfo });
 
-      // Clear the old connection promise before attempting reconnection
-      this.#connectionPromise = null;
+    // Store timer ID so it can be cleared in close()
+    this.#reconnectTimer = setTimeout(() => {
+      this.#reconnectTimer = null;
 
-      // Store timer ID so it can be cleared in close()
-      this.#reconnectTimer = setTimeout(() => {
-        this.#reconnectTimer = null;
+      this.connect().catch((err) => {
+        this.#debug("Reconnection failed:", err);
 
-        // connect() will set a new #connectionPromise, preventing races
-        this.connect().catch((err) => {
-          this.#debug("Reconnection failed:", err);
-          if (this.#reconnectAttempts >= this.#maxReconnectAttempts) {
-            this.#debug("Max reconnection attempts reached, closing streams");
-            this.#connectionPromise = null;
-            this.#fanout.close();
-          }
-        });
-      }, delay);
-    } else {
-      this.#debug("Max reconnection attempts reached");
-      this.#connectionPromise = null;
-      this.#fanout.close();
-    }
+        const failedCloseInfo = this.#lastCloseInfo ?? {
+          code: 1006,
+          reason: err instanceof Error ? err.message : String(err),
+          wasClean: false,
+        };
+        this.#lastCloseInfo = null;
+
+        this.#scheduleReconnect(failedCloseInfo);
+      });
+    }, delay);
   }
 
-  async #handleMessage(event: MessageEvent) {
+  async #handleMessage(event: MessageEvent, ws: WebSocket) {
+    // Anything at all from the server shows the connection is still alive
+    if (ws === this.#ws) {
+      this.#resetHeartbeat();
+    }
+
+    // Event streams tell us where to resume from if we reconnect
+    if (event.lastEventId) {
+      this.#lastEventId = event.lastEventId;
+    }
+
     let parsedData;
     try {
       parsedData = JSON.parse(event.data as string);
@@ -307,37 +1220,70 @@ export class TokenSubscription {
       return;
     }
 
-    switch (msg.kind) {
-      case "data": {
-        await this.#handleDataMessage(msg);
-        break;
-      }
+    if (
+      !nonDedupedKinds.has(msg.kind) &&
+      this.#isHandoverDuplicate(event.data as string, ws)
+    ) {
+      this.#debug(
+        `Dropping duplicate "${msg.kind}" message on channel "${msg.channel}" received during handover`,
+      );
+      return;
+    }
 
-      case "datastream-start": {
-        this.#handleDataStreamStart(msg);
-        break;
-      }
+    if (msg.id && cursorKinds.has(msg.kind) && this.#isSeenId(msg.id)) {
+      this.#debug(
+        `Dropping "${msg.kind}" message "${msg.id}" on channel "${msg.channel}" that was already delivered`,
+      );
+      return;
+    }
 
-      case "datastream-end": {
-        this.#handleDataStreamEnd(msg);
-        break;
-      }
+    if (cursorKinds.has(msg.kind) && !this.#advanceCursor(msg)) {
+      this.#debug(
+        `Dropping replayed "${msg.kind}" message on channel "${msg.channel}" that was already delivered`,
+      );
+      return;
+    }
 
-      case "chunk": {
-        this.#handleChunk(msg);
+    switch (msg.kind) {
+      case "data":
+      case "datastream-start":
+      case "datastream-end":
+      case "chunk":
+      case "run":
+      case "step":
+      case "event": {
+        await this.#messages.handle(
+          toReceivedMessage(msg, this.#cursors.get(msg.channel ?? "")),
+        );
         break;
       }
 
       case "ping": {
         // Respond to ping with pong to keep connection alive
-        if (this.#ws?.readyState === WebSocket.OPEN) {
-          this.#ws.send(JSON.stringify({ kind: "pong" }));
+        if (ws.readyState === readyStates.OPEN) {
+          ws.send(JSON.stringify({ kind: "pong" }));
+        }
+        break;
+      }
+
+      case "pong": {
+        if (ws !== this.#ws || this.#pingSentAt === null) {
+          break;
         }
+
+        this.#roundTripTime = Date.now() - this.#pingSentAt;
+        this.#pingSentAt = null;
+        this.#debug(`Round-trip time: ${this.#roundTripTime}ms`);
         break;
       }
 
       case "closing": {
-        this.#debug("Server is closing connection, will reconnect...");
+        if (ws !== this.#ws) {
+          break;
+        }
+
+        this.#debug("Server is closing connection, opening a replacement...");
+        void this.#handover();
         break;
       }
 
@@ -349,261 +1295,287 @@ export class TokenSubscription {
     }
   }
 
-  async #handleDataMessage(msg: any) {
-    if (!msg.channel) {
-      this.#debug(`Received message with no channel`);
-      return;
-    }
-
-    if (!msg.topic) {
-      this.#debug(`Received message on channel "${msg.channel}" with no topic`);
-      return;
+  /**
+   * Returns `true` if a message with the given ID was recently delivered,
+   * otherwise remembers the ID, forgetting the least recently seen one if we
+   * have too many.
+   */
+  #isSeenId(id: string): boolean {
+    if (this.#dedupeSize <= 0) {
+      return false;
     }
 
-    const topic = this.#topics.get(msg.topic);
-    if (!topic) {
-      this.#debug(
-        `Received message on channel "${msg.channel}" for unknown topic "${msg.topic}"`,
-      );
-      return;
+    if (this.#seenIds.has(id)) {
+      // Move it to the end, as it's now the most recently seen
+      this.#seenIds.delete(id);
+      this.#seenIds.add(id);
+      return true;
     }
 
-    const schema = topic.getSchema();
-    if (schema) {
-      const validateRes = await schema["~standard"].validate(msg.data);
-      if (validateRes.issues) {
-        console.error(
-          `Received message on channel "${msg.channel}" for topic "${msg.topic}" that failed schema validation:`,
-          validateRes.issues,
-        );
-        return;
+    this.#seenIds.add(id);
+    if (this.#seenIds.size > this.#dedupeSize) {
+      const oldest = this.#seenIds.values().next().value;
+      if (oldest !== undefined) {
+        this.#seenIds.delete(oldest);
       }
-
-      msg.data = validateRes.value;
     }
 
-    this.#debug(
-      `Received message on channel "${msg.channel}" for topic "${msg.topic}":`,
-      msg.data,
-    );
-
-    this.#fanout.write({
-      channel: msg.channel,
-      topic: msg.topic,
-      data: msg.data,
-      fnId: msg.fn_id,
-      createdAt: msg.created_at || new Date(),
-      runId: msg.run_id,
-      kind: "data",
-      envId: msg.env_id,
-    });
+    return false;
   }
 
-  #handleDataStreamStart(msg: any) {
-    if (!msg.channel || !msg.topic) {
-      this.#debug(`Received datastream-start with missing channel or topic`);
-      return;
+  /**
+   * Move the cursor of the message's channel to the message, reporting a gap
+   * if we can tell that messages were skipped on that channel.
+   *
+   * Returns `false` if the message has already been delivered, which can
+   * happen when the server replays messages after a reconnect.
+   */
+  #advanceCursor(msg: Realtime.Message.Raw): boolean {
+    if (msg.seq === undefined && !msg.created_at) {
+      return true;
     }
 
-    const streamId: unknown = msg.data;
-    if (typeof streamId !== "string" || !streamId) {
-      this.#debug(`Received datastream-start with invalid stream ID`);
-      return;
-    }
+    const channel = msg.channel ?? "";
+    const prev = this.#cursors.get(channel);
+    const next: Realtime.Subscribe.Cursor = {
+      createdAt: msg.created_at ?? prev?.createdAt ?? new Date(),
+      seq: msg.seq ?? prev?.seq,
+    };
 
-    if (this.#chunkStreams.has(streamId)) {
-      this.#debug(
-        `Received datastream-start for stream ID "${streamId}" that already exists`,
-      );
-      return;
-    }
+    if (prev?.seq !== undefined && msg.seq !== undefined) {
+      if (msg.seq <= prev.seq) {
+        return false;
+      }
 
-    let holderStream: ReadableStream;
-    let holderController: ReadableStreamDefaultController;
+      if (msg.seq > prev.seq + 1) {
+        const gap = { from: prev, to: next, missed: msg.seq - prev.seq - 1 };
+        this.#debug(`Detected gap of ${gap.missed} messages`);
 
-    holderStream = new ReadableStream({
-      start: (controller) => {
-        holderController = controller;
-        this.#chunkStreams.set(streamId, {
-          stream: holderStream,
-          controller: holderController,
-        });
-      },
+        try {
+          this.#onGap?.(gap);
+        } catch (err) {
+          this.#debug("Error in onGap callback:", err);
+        }
+      }
+    }
 
-      cancel: () => {
-        this.#chunkStreams.delete(streamId);
-      },
-    });
+    this.#cursors.set(channel, next);
+    return true;
+  }
 
-    this.#debug(`Created stream ID "${streamId}" on channel "${msg.channel}"`);
-
-    this.#fanout.write({
-      channel: msg.channel,
-      topic: msg.topic,
-      kind: "datastream-start",
-      data: streamId,
-      streamId,
-      fnId: msg.fn_id,
-      runId: msg.run_id,
-      stream: holderStream,
-    });
+  /**
+   * The channels and topics currently being delivered by this subscription.
+   */
+  public get channels(): { channel: string; topics: string[] }[] {
+    return [...this.#channels.entries()].map(([channel, { topics }]) => ({
+      channel,
+      topics: [...topics.keys()],
+    }));
   }
 
-  #handleDataStreamEnd(msg: any) {
-    if (!msg.channel || !msg.topic) {
-      this.#debug(`Received datastream-end with missing channel or topic`);
+  /**
+   * Start receiving messages for the given topics on the existing connection.
+   * `channelId` is only required if this subscription has multiple channels.
+   *
+   * If the current token doesn't cover the topics, a new one is fetched
+   * first.
+   */
+  public async addTopics(topics: string[], channelId?: string): Promise<void> {
+    const id = this.#resolveChannelId(channelId);
+    const active = this.#channels.get(id) ?? {
+      definition: id,
+      topics: new Map<string, Realtime.Topic.Definition>(),
+    };
+
+    const added = [...new Set(topics)].filter(
+      (name) => !active.topics.has(name),
+    );
+    if (!added.length) {
       return;
     }
 
-    const streamId: unknown = msg.data;
-    if (typeof streamId !== "string" || !streamId) {
-      this.#debug(`Received datastream-end with invalid stream ID`);
-      return;
-    }
+    let key: string | undefined;
+
+    const coverage = this.#getTokenCoverage();
+    const covered =
+      coverage.find(({ channel }) => channel === id)?.topics ?? [];
+    const uncovered = added.filter((name) => !covered.includes(name));
 
-    const stream = this.#chunkStreams.get(streamId);
-    if (!stream) {
+    if (uncovered.length) {
       this.#debug(
-        `Received datastream-end for stream ID "${streamId}" that doesn't exist`,
+        `Token doesn't cover topics ${JSON.stringify(uncovered)} on channel "${id}"; fetching a new one...`,
       );
-      return;
-    }
 
-    try {
-      stream.controller.close();
-    } catch (err) {
-      this.#debug(`Error closing stream ${streamId}:`, err);
-    }
+      const allTopics = [...covered, ...uncovered];
+      const newCoverage = covered.length
+        ? coverage.map((entry) =>
+            entry.channel === id ? { channel: id, topics: allTopics } : entry,
+          )
+        : [...coverage, { channel: id, topics: allTopics }];
+
+      key = await this.#fetchKey(newCoverage);
+      if (!key) {
+        throw new Error(
+          `Failed to get a subscription token for topics ${JSON.stringify(uncovered)}`,
+        );
+      }
 
-    this.#chunkStreams.delete(streamId);
+      this.#setTokenCoverage(key, active.definition, allTopics);
+    }
 
-    this.#debug(`Closed stream ID "${streamId}" on channel "${msg.channel}"`);
+    for (const name of added) {
+      active.topics.set(name, this.#resolveTopic(active.definition, name));
+    }
+    this.#channels.set(id, active);
 
-    this.#fanout.write({
-      channel: msg.channel,
-      topic: msg.topic,
-      kind: "datastream-end",
-      data: streamId,
-      streamId,
-      fnId: msg.fn_id,
-      runId: msg.run_id,
-      stream: stream.stream,
+    this.#debug(
+      `Subscribing to topics ${JSON.stringify(added)} on channel "${id}"`,
+    );
+    this.#send({
+      kind: "sub",
+      channel: id,
+      data: { topics: added, ...(key ? { token: key } : {}) },
     });
-  }
 
-  #handleChunk(msg: any) {
-    if (!msg.channel || !msg.topic) {
-      this.#debug(`Received chunk with missing channel or topic`);
-      return;
+    // We can't send frames over an event stream, so reconnect using the new
+    // token instead
+    if (key && this.#transport === "sse") {
+      await this.#handover();
     }
+  }
 
-    if (!msg.stream_id) {
-      this.#debug(`Received chunk with no stream ID`);
+  /**
+   * Stop receiving messages for the given topics without closing the
+   * connection. `channelId` is only required if this subscription has
+   * multiple channels.
+   */
+  public async removeTopics(
+    topics: string[],
+    channelId?: string,
+  ): Promise<void> {
+    const id = this.#resolveChannelId(channelId);
+    const active = this.#channels.get(id);
+    if (!active) {
       return;
     }
 
-    const stream = this.#chunkStreams.get(msg.stream_id);
-    if (!stream) {
-      this.#debug(`Received chunk for unknown stream ID "${msg.stream_id}"`);
+    const removed = [...new Set(topics)].filter((name) =>
+      active.topics.delete(name),
+    );
+    if (!removed.length) {
       return;
     }
 
     this.#debug(
-      `Received chunk on channel "${msg.channel}" for stream ID "${msg.stream_id}":`,
-      msg.data,
+      `Unsubscribing from topics ${JSON.stringify(removed)} on channel "${id}"`,
     );
-
-    try {
-      stream.controller.enqueue(msg.data);
-    } catch (err) {
-      this.#debug(`Error enqueueing chunk to stream ${msg.stream_id}:`, err);
-    }
-
-    this.#fanout.write({
-      channel: msg.channel,
-      topic: msg.topic,
-      kind: "chunk",
-      data: msg.data,
-      streamId: msg.stream_id,
-      fnId: msg.fn_id,
-      runId: msg.run_id,
-      stream: stream.stream,
+    this.#send({
+      kind: "unsub",
+      channel: id,
+      data: { topics: removed },
     });
   }
 
   /**
-   * Lazily get a subscription token if not provided
+   * Replace the token with one using the given key, which covers the given
+   * topics for the given channel along with everything the previous token
+   * covered.
    */
-  private async lazilyGetSubscriptionToken<
-    const InputChannel extends Realtime.Channel | string,
-    const InputTopics extends (keyof Realtime.Channel.InferTopics<
-      Realtime.Channel.AsChannel<InputChannel>
-    > &
-      string)[],
-    const TToken extends Realtime.Subscribe.Token<
-      Realtime.Channel.AsChannel<InputChannel>,
-      InputTopics
-    >,
-  >(
-    /**
-     * Subscription parameters
-     */
-    args: {
-      /**
-       * Channel ID or channel object
-       */
-      channel: Realtime.Subscribe.InferChannelInput<InputChannel>;
+  #setTokenCoverage(
+    key: string,
+    channel: Realtime.Channel | string,
+    topics: string[],
+  ) {
+    const channelId = getChannelId(channel);
 
-      /**
-       * List of topics
-       */
-      topics: InputTopics;
+    if (!("channels" in this.token)) {
+      if (getChannelId(this.token.channel) === channelId) {
+        this.token = { ...this.token, key, topics };
+        return;
+      }
 
-      /**
-       * Signing key for authentication
-       */
-      signingKey: string | undefined;
+      this.token = {
+        key,
+        channels: [{ channel: this.token.channel, topics: this.token.topics }],
+      };
+    }
 
-      /**
-       * Fallback signing key
-       */
-      signingKeyFallback: string | undefined;
-    },
-  ): Promise<TToken> {
-    const channelId =
-      typeof args.channel === "string" ? args.channel : args.channel.name;
+    const entries = this.token.channels;
+    const exists = entries.some(
+      (entry) => getChannelId(entry.channel) === channelId,
+    );
 
-    if (!channelId) {
-      throw new Error("Channel ID is required to create a subscription token");
+    this.token = {
+      key,
+      channels: exists
+        ? entries.map((entry) =>
+            getChannelId(entry.channel) === channelId
+              ? { ...entry, topics }
+              : entry,
+          )
+        : [...entries, { channel, topics } as Realtime.Subscribe.Token],
+    };
+  }
+
+  /**
+   * The position of the last message delivered, which can be passed as the
+   * `cursor` of a new subscription to resume from this point.
+   *
+   * With several channels, this is when the earliest of their last messages
+   * was created, without a sequence number, so that resuming from it misses
+   * nothing on any channel.
+   */
+  public get cursor(): Realtime.Subscribe.Cursor | undefined {
+    const cursors = [...this.#cursors.values()];
+
+    // Channels that haven't had a message yet still need to resume from
+    // where we were asked to start
+    if (this.#initialCursor && this.#cursors.size < this.#channels.size) {
+      cursors.push(this.#initialCursor);
     }
 
-    const key = await api.getSubscriptionToken({
-      channel: channelId,
-      topics: args.topics,
-      signingKey: args.signingKey,
-      signingKeyFallback: args.signingKeyFallback,
-      apiBaseUrl: this.#apiBaseUrl,
-    });
+    if (this.#channels.size <= 1 && cursors.length <= 1) {
+      return cursors[0];
+    }
 
-    const token = {
-      channel: channelId,
-      topics: args.topics,
-      key,
-    } as TToken;
+    if (!cursors.length) {
+      return;
+    }
 
-    return token;
+    return {
+      createdAt: new Date(
+        Math.min(...cursors.map((cursor) => cursor.createdAt.getTime())),
+      ),
+    };
+  }
+
+  /**
+   * The round-trip time in milliseconds of the latest ping we sent, if
+   * `pingInterval` is set and the server has answered one.
+   */
+  public get roundTripTime(): number | undefined {
+    return this.#roundTripTime;
   }
 
   /**
    * Close the connection and cleanup resources
    */
   public close() {
+    this.#close("closed");
+  }
+
+  #close(reason: "closed" | "aborted") {
     if (this.#closed) {
       return;
     }
 
-    this.#debug("close() called; closing connection...");
+    this.#debug(
+      reason === "aborted"
+        ? "Signal aborted; closing connection..."
+        : "close() called; closing connection...",
+    );
     this.#closed = true;
+    this.#signal?.removeEventListener("abort", this.#onAbort);
     this.#running = false;
 
     // Clear any pending reconnection timer
@@ -612,48 +1584,225 @@ export class TokenSubscription {
       this.#reconnectTimer = null;
     }
 
-    // Prevent reconnection attempts
-    this.#reconnectAttempts = this.#maxReconnectAttempts;
+    this.#stopHeartbeat();
+
+    // Abandon any in-progress handover
+    if (this.#handoverRetireTimer) {
+      clearTimeout(this.#handoverRetireTimer);
+      this.#handoverRetireTimer = null;
+    }
+    this.#cleanupSocket(this.#handoverWs);
+    this.#handoverWs = null;
+    this.#retireSocket();
 
     // Close WebSocket connection
     this.#cleanupWebSocket();
 
-    // Close all chunk streams
-    for (const [streamId, stream] of this.#chunkStreams.entries()) {
+    // Fail any datastreams that haven't ended yet
+    this.#messages.interruptAll("closed");
+
+    this.#end(reason);
+    this.#debug(`Closing ${this.#fanout.size()} streams...`);
+    this.#fanout.close();
+  }
+
+  /**
+   * The current connection state.
+   */
+  public get state(): Realtime.Subscribe.State {
+    return this.#state;
+  }
+
+  /**
+   * Listen for a lifecycle event, returning a function that removes the
+   * listener.
+   */
+  public on<TEvent extends keyof Realtime.Subscribe.Events>(
+    event: TEvent,
+    listener: (payload: Realtime.Subscribe.Events[TEvent]) => void,
+  ): () => void {
+    let listeners = this.#listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.#listeners.set(event, listeners);
+    }
+
+    listeners.add(listener);
+
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  #emit<TEvent extends keyof Realtime.Subscribe.Events>(
+    event: TEvent,
+    payload: Realtime.Subscribe.Events[TEvent],
+  ) {
+    for (const listener of this.#listeners.get(event) ?? []) {
       try {
-        stream.controller.close();
+        (listener as (payload: Realtime.Subscribe.Events[TEvent]) => void)(
+          payload,
+        );
       } catch (err) {
-        this.#debug(`Error closing stream ${streamId}:`, err);
+        this.#debug(`Error in "${event}" listener:`, err);
       }
     }
-    this.#chunkStreams.clear();
+  }
 
-    this.#debug(`Closing ${this.#fanout.size()} streams...`);
-    this.#fanout.close();
+  #setState(state: Realtime.Subscribe.State) {
+    if (this.#state === state) {
+      return;
+    }
+
+    this.#state = state;
+    this.#emit("state", state);
+  }
+
+  /**
+   * Mark the subscription as ended, letting listeners know why.
+   */
+  #end(
+    reason: Realtime.Subscribe.Events["closed"]["reason"],
+    closeInfo?: Realtime.Subscribe.CloseInfo,
+  ) {
+    if (this.#state === "closed") {
+      return;
+    }
+
+    this.#setState("closed");
+    this.#emit("closed", { reason, closeInfo });
   }
 
   /**
    * Get a new JSON stream from the subscription
    */
-  public getJsonStream() {
-    return this.#fanout.createStream();
+  public getJsonStream({
+    topics,
+    runId,
+    kinds,
+    filter,
+    ...options
+  }: Realtime.Subscribe.JsonStreamOptions = {}) {
+    return this.#fanout.createStream({
+      ...options,
+      filter: getMessageFilter({ topics, runId, kinds, filter }),
+    });
+  }
+
+  /**
+   * Get a new stream of Server-Sent Events from the subscription, which can be
+   * consumed with the `EventSource` API.
+   *
+   * Each event is named after the message's topic, or its kind if it has no
+   * topic, and its ID is the message's cursor, which `parseEventId()` turns
+   * back into a cursor to resume from. A `retry` hint is sent first and a
+   * `: keepalive` comment is sent periodically while the stream is open.
+   */
+  public getEncodedStream({
+    retry = this.#retryPolicy.initialDelay,
+    keepAliveInterval = defaultKeepAliveInterval,
+    topics,
+    kinds,
+    ...options
+  }: Realtime.Subscribe.EncodedStreamOptions = {}): ReadableStream<Uint8Array> {
+    const events = this.#fanout.createStream({
+      ...options,
+      filter: getMessageFilter({ topics, kinds }),
+      transform: (chunk) => this.#encoder.encode(toServerSentEvent(chunk)),
+    });
+    const reader = events.getReader();
+
+    let keepAliveTimer: ReturnType<typeof setInterval> | undefined;
+    const stopKeepAlive = () => clearInterval(keepAliveTimer);
+
+    // Stop sending comments once the subscription has finished with the
+    // stream, even if nothing is reading it
+    reader.closed.then(stopKeepAlive, stopKeepAlive);
+
+    const stream = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        controller.enqueue(this.#encoder.encode(`retry: ${retry}\n\n`));
+
+        if (keepAliveInterval > 0) {
+          keepAliveTimer = setInterval(() => {
+            try {
+              controller.enqueue(this.#encoder.encode(": keepalive\n\n"));
+            } catch {
+              // The stream may have been closed already
+              stopKeepAlive();
+            }
+          }, keepAliveInterval);
+        }
+      },
+      pull: async (controller) => {
+        try {
+          const { done, value } = await reader.read();
+          if (done) {
+            controller.close();
+            return;
+          }
+
+          controller.enqueue(value);
+        } catch (err) {
+          controller.error(err);
+        }
+      },
+      cancel: async (reason) => {
+        stopKeepAlive();
+        await reader.cancel(reason);
+      },
+    });
+
+    this.#encodedStreams.set(stream, events);
+
+    return stream;
   }
 
   /**
-   * Get a new encoded stream (SSE-compatible) from the subscription
+   * Get a new stream of newline-delimited JSON from the subscription, with
+   * one message per line
    */
-  public getEncodedStream() {
-    return this.#fanout.createStream((chunk) => {
-      return this.#encoder.encode(`${JSON.stringify(chunk)}\n`);
+  public getNdjsonStream({
+    topics,
+    kinds,
+    ...options
+  }: Realtime.Subscribe.MessageStreamOptions = {}) {
+    return this.#fanout.createStream({
+      ...options,
+      filter: getMessageFilter({ topics, kinds }),
+      transform: (chunk) => {
+        return this.#encoder.encode(`${JSON.stringify(chunk)}\n`);
+      },
     });
   }
 
+  /**
+   * Get the number of messages dropped from a stream created from this
+   * subscription because its reader fell behind
+   */
+  public getDroppedCount(stream: ReadableStream) {
+    return this.#fanout.getDroppedCount(
+      this.#encodedStreams.get(stream) ?? stream,
+    );
+  }
+
+  /**
+   * Close a single stream created from this subscription, even if it is
+   * locked to a reader
+   */
+  public closeStream(stream: ReadableStream) {
+    this.#fanout.closeStream(this.#encodedStreams.get(stream) ?? stream);
+  }
+
   /**
    * Use a callback to handle messages from the stream
    */
   public useCallback(
-    callback: Realtime.Subscribe.Callback,
-    stream: ReadableStream<Realtime.Message> = this.getJsonStream(),
+    callback: Realtime.Subscribe.Callback<
+      Realtime.Subscribe.AnyToken,
+      Realtime.Message.Any
+    >,
+    stream: ReadableStream<Realtime.Message.Any> = this.getJsonStream(),
   ) {
     void (async () => {
       // Explicitly get and manage the reader so that we can manually release
@@ -0,0 +1,25 @@
+import { describe, test, expect } from "vitest";
+import { parseEventId, toEventId } from "./cursor";
+
+describe("cursor", () => {
+  const createdAt = new Date("2024-01-01T00:00:00.000Z");
+
+  test("кодирует курсор в ID события и обратно", () => {
+    expect(toEventId({ createdAt, seq: 5 })).toBe("1704067200000:5");
+    expect(parseEventId("1704067200000:5")).toEqual({ createdAt, seq: 5 });
+  });
+
+  test("обходится без порядкового номера", () => {
+    expect(toEventId({ createdAt })).toBe("1704067200000");
+    expect(parseEventId("1704067200000")).toEqual({
+      createdAt,
+      seq: undefined,
+    });
+  });
+
+  test("возвращает undefined для пустого или чужого ID", () => {
+    expect(parseEventId(null)).toBeUndefined();
+    expect(parseEventId("")).toBeUndefined();
+    expect(parseEventId("2024-01-01T00:00:00.000Z")).toBeUndefined();
+  });
+});
@@ -0,0 +1,47 @@
+import { type Realtime } from "../types";
+
+/**
+ * Encode a cursor as the ID of a Server-Sent Event, so that a client
+ * reconnecting with `EventSource` sends it back as the `Last-Event-ID` header.
+ */
+export const toEventId = (cursor: Realtime.Subscribe.Cursor): string => {
+  const createdAt = cursor.createdAt.getTime();
+
+  return cursor.seq === undefined
+    ? `${createdAt}`
+    : `${createdAt}:${cursor.seq}`;
+};
+
+/**
+ * Get the cursor of the last event a client received from a `Last-Event-ID`
+ * header, so that a proxy can resume the subscription from it.
+ *
+ * Returns `undefined` if there's no ID or it wasn't sent by `toSSEResponse()`.
+ *
+ * @example
+ * ```ts
+ * const stream = await subscribe({
+ *   channel: "user:123",
+ *   topics: ["messages"],
+ *   cursor: parseEventId(req.headers.get("Last-Event-ID")),
+ * });
+ *
+ * return toSSEResponse(stream, { signal: req.signal });
+ * ```
+ */
+export const parseEventId = (
+  /**
+   * Value of the `Last-Event-ID` header
+   */
+  id: string | null | undefined,
+): Realtime.Subscribe.Cursor | undefined => {
+  const match = id?.match(/^(\d+)(?::(\d+))?$/);
+  if (!match?.[1]) {
+    return;
+  }
+
+  return {
+    createdAt: new Date(Number(match[1])),
+    seq: match[2] === undefined ? undefined : Number(match[2]),
+  };
+};
@@ -0,0 +1,41 @@
+/**
+ * Why a datastream ended before its `datastream-end` message was received
+ *
+ * - `disconnected`: the connection to the server was lost
+ * - `closed`: the subscription was closed
+ * - `idle`: no chunks were received for longer than the idle timeout
+ * - `limit`: too many datastreams were open at once, so the oldest was ended
+ * - `invalid`: a chunk failed validation against its topic's stream schema
+ */
+export type StreamInterruptedReason =
+  "disconnected" | "closed" | "idle" | "limit" | "invalid";
+
+/**
+ * The error a datastream's `ReadableStream` fails with when it's cut off
+ * before being finished, so that a truncated stream can be told apart from a
+ * complete one.
+ */
+export class StreamInterruptedError extends Error {
+  override name = "StreamInterruptedError";
+
+  constructor(
+    /**
+     * ID of the datastream that was cut off
+     */
+    public readonly streamId: string,
+
+    /**
+     * How many chunks were received before the datastream was cut off
+     */
+    public readonly chunksReceived: number,
+
+    /**
+     * Why the datastream was cut off
+     */
+    public readonly reason: StreamInterruptedReason,
+  ) {
+    super(
+      `Stream "${streamId}" was interrupted (${reason}) after ${chunksReceived} chunks`,
+    );
+  }
+}
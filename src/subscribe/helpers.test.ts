@@ -1,22 +1,41 @@
 import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
-import { subscribe, getSubscriptionToken } from "./helpers";
+import { ConnectionPool } from "./ConnectionPool";
+import {
+  subscribe,
+  subscribeToRun,
+  subscribeToProxy,
+  getSubscriptionToken,
+  toNdjsonResponse,
+  toSSEResponse,
+} from "./helpers";
 import { channel } from "../channel";
 import { topic } from "../topic";
+import { type Realtime } from "../types";
+import { z } from "zod";
 
 // Мокаем WebSocket
-class MockWebSocket {
+class MockWebSocket
+  implements Realtime.Subscribe.WebSocketConstructor.Instance
+{
   static CONNECTING = 0;
   static OPEN = 1;
   static CLOSING = 2;
   static CLOSED = 3;
 
-  readyState = MockWebSocket.CONNECTING;
-  onopen: ((event: any) => void) | null = null;
-  onmessage: ((event: any) => void) | null = null;
-  onerror: ((event: any) => void) | null = null;
-  onclose: ((event: any) => void) | null = null;
+  /**
+   * Последний созданный сокет
+   */
+  static latest: MockWebSocket | undefined;
 
-  constructor(public url: string) {
+  readyState = MockWebSocket.CONNECTING;
+  onopen: Realtime.Subscribe.WebSocketConstructor.Instance["onopen"] = null;
+  onmessage: Realtime.Subscribe.WebSocketConstructor.Instance["onmessage"] =
+    null;
+  onerror: Realtime.Subscribe.WebSocketConstructor.Instance["onerror"] = null;
+  onclose: Realtime.Subscribe.WebSocketConstructor.Instance["onclose"] = null;
+
+  constructor(public url: URL) {
+    MockWebSocket.latest = this;
     setTimeout(() => {
       this.readyState = MockWebSocket.OPEN;
       this.onopen?.({});
@@ -27,12 +46,37 @@ class MockWebSocket {
 
   close(code?: number, reason?: string) {
     this.readyState = MockWebSocket.CLOSED;
-    this.onclose?.({ code: code || 1000, reason: reason || "" });
+    this.onclose?.({
+      code: code || 1000,
+      reason: reason || "",
+      wasClean: true,
+    });
   }
 }
 
+const MockWebSocketImpl: Realtime.Subscribe.WebSocketConstructor =
+  MockWebSocket;
+
+/**
+ * Доставляет сообщение через последний созданный сокет
+ */
+const receive = (message: Record<string, unknown>) => {
+  MockWebSocket.latest?.onmessage?.({
+    data: JSON.stringify({
+      created_at: "2024-01-01T00:00:00.000Z",
+      ...message,
+    }),
+  });
+};
+
+/**
+ * Даем время на обработку сообщений и отмены потоков
+ */
+const settle = () => new Promise((resolve) => setTimeout(resolve, 10));
+
 describe("subscribe helpers", () => {
   beforeEach(() => {
+    MockWebSocket.latest = undefined;
     global.WebSocket = MockWebSocket as any;
     vi.stubEnv("INNGEST_SIGNING_KEY", "test-key");
   });
@@ -146,6 +190,494 @@ describe("subscribe helpers", () => {
     });
   });
 
+  describe("закрытие подписки", () => {
+    const token = {
+      channel: "test-channel",
+      topics: ["topic1"],
+      key: "test-key",
+    };
+
+    test("close() закрывает соединение и потоки", async () => {
+      const close = vi.spyOn(MockWebSocket.prototype, "close");
+      const stream = await subscribe(token);
+      const reader = stream.getReader();
+
+      stream.close();
+
+      expect(close).toHaveBeenCalled();
+      expect(stream.state).toBe("closed");
+      await expect(reader.read()).resolves.toMatchObject({ done: true });
+
+      close.mockRestore();
+    });
+
+    test("закрывает соединение после отмены всех потоков", async () => {
+      const close = vi.spyOn(MockWebSocket.prototype, "close");
+      const stream = await subscribe(token);
+      const jsonStream = stream.getJsonStream();
+
+      await stream.cancel();
+      await settle();
+      expect(close).not.toHaveBeenCalled();
+
+      await jsonStream.cancel();
+      await settle();
+      expect(close).toHaveBeenCalled();
+      expect(stream.state).toBe("closed");
+
+      close.mockRestore();
+    });
+
+    test("закрывается через await using", async () => {
+      let state: string | undefined;
+
+      {
+        await using stream = await subscribe(token);
+        stream.on("state", (newState) => {
+          state = newState;
+        });
+      }
+
+      expect(state).toBe("closed");
+    });
+
+    test("закрывается при отмене signal", async () => {
+      const controller = new AbortController();
+      const stream = await subscribe({ ...token, signal: controller.signal });
+      const reader = stream.getReader();
+
+      controller.abort();
+
+      expect(stream.state).toBe("closed");
+      await expect(reader.read()).resolves.toMatchObject({ done: true });
+    });
+
+    test("сообщает причину закрытия сервером", async () => {
+      const stream = await subscribe(token);
+      const listener = vi.fn();
+      stream.on("closed", listener);
+
+      MockWebSocket.latest?.close(1000, "done");
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({
+        reason: "server",
+        closeInfo: { code: 1000, reason: "done", wasClean: true },
+      });
+    });
+
+    test("сообщает о закрытии после исчерпания попыток", async () => {
+      const stream = await subscribe({
+        ...token,
+        retry: { shouldRetry: () => false },
+      });
+      const listener = vi.fn();
+      stream.on("closed", listener);
+
+      MockWebSocket.latest?.onclose?.({
+        code: 1006,
+        reason: "",
+        wasClean: false,
+      });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({
+        reason: "retries-exhausted",
+        closeInfo: { code: 1006, reason: "", wasClean: false },
+      });
+    });
+
+    test("отклоняется с AbortError если signal уже отменен", async () => {
+      await expect(
+        subscribe({ ...token, signal: AbortSignal.abort() }),
+      ).rejects.toMatchObject({ name: "AbortError" });
+    });
+
+    test("close() в общем пуле закрывает только свои потоки", async () => {
+      const pool = new ConnectionPool();
+      const close = vi.spyOn(MockWebSocket.prototype, "close");
+      const first = await subscribe({ ...token, pool });
+      const second = await subscribe({ ...token, pool });
+      const secondReader = second.getReader();
+
+      first.close();
+      await settle();
+
+      expect(close).not.toHaveBeenCalled();
+      expect(second.state).toBe("active");
+
+      second.close();
+      await settle();
+
+      expect(close).toHaveBeenCalledTimes(1);
+      await expect(secondReader.read()).resolves.toMatchObject({ done: true });
+
+      close.mockRestore();
+    });
+  });
+
+  describe("subscribeToRun", () => {
+    test("получает только сообщения запуска и результат", async () => {
+      const run = await subscribeToRun({
+        runId: "run-1",
+        key: "test-key",
+        WebSocket: MockWebSocketImpl,
+        output: z.object({ ok: z.boolean() }),
+      });
+      const reader = run.getReader();
+
+      receive({
+        channel: "run-1",
+        kind: "run",
+        run_id: "run-2",
+        data: { status: "started" },
+      });
+      receive({
+        channel: "run-1",
+        kind: "run",
+        run_id: "run-1",
+        data: { status: "started" },
+      });
+      receive({
+        channel: "run-1",
+        kind: "run",
+        run_id: "run-1",
+        data: { status: "completed", output: { ok: true } },
+      });
+
+      await expect(run.result).resolves.toEqual({ ok: true });
+      await expect(reader.read()).resolves.toMatchObject({
+        value: { runId: "run-1", data: { status: "started" } },
+      });
+      await expect(reader.read()).resolves.toMatchObject({
+        value: { runId: "run-1", data: { status: "completed" } },
+      });
+      await expect(reader.read()).resolves.toMatchObject({ done: true });
+    });
+
+    test("отклоняет результат, не прошедший проверку схемой", async () => {
+      const run = await subscribeToRun({
+        runId: "run-1",
+        key: "test-key",
+        WebSocket: MockWebSocketImpl,
+        output: z.object({ ok: z.boolean() }),
+      });
+
+      receive({
+        channel: "run-1",
+        kind: "run",
+        run_id: "run-1",
+        data: { status: "completed", output: { ok: "yes" } },
+      });
+
+      await expect(run.result).rejects.toThrow(
+        'Output of run "run-1" failed schema validation',
+      );
+    });
+
+    test("отклоняет результат и закрывает подписку, если схема выбросила ошибку", async () => {
+      const run = await subscribeToRun({
+        runId: "run-1",
+        key: "test-key",
+        WebSocket: MockWebSocketImpl,
+        output: {
+          "~standard": {
+            version: 1,
+            vendor: "test",
+            validate: () => {
+              throw new Error("validator exploded");
+            },
+          },
+        },
+      });
+
+      receive({
+        channel: "run-1",
+        kind: "run",
+        run_id: "run-1",
+        data: { status: "completed", output: { ok: true } },
+      });
+
+      await expect(run.result).rejects.toThrow("validator exploded");
+      await settle();
+      expect(MockWebSocket.latest?.readyState).toBe(MockWebSocket.CLOSED);
+    });
+
+    test("отклоняет результат при ошибке запуска", async () => {
+      const run = await subscribeToRun({
+        runId: "run-1",
+        key: "test-key",
+        WebSocket: MockWebSocketImpl,
+      });
+
+      receive({
+        channel: "run-1",
+        kind: "run",
+        run_id: "run-1",
+        data: {
+          status: "failed",
+          error: { name: "NonRetriableError", message: "boom" },
+        },
+      });
+
+      await expect(run.result).rejects.toMatchObject({
+        name: "NonRetriableError",
+        message: "boom",
+      });
+      await settle();
+      expect(MockWebSocket.latest?.readyState).toBe(MockWebSocket.CLOSED);
+    });
+
+    test("отклоняет результат при закрытии до завершения запуска", async () => {
+      const run = await subscribeToRun({
+        runId: "run-1",
+        key: "test-key",
+        WebSocket: MockWebSocketImpl,
+      });
+
+      run.close();
+
+      await expect(run.result).rejects.toThrow(
+        'Subscription closed before run "run-1" finished',
+      );
+    });
+  });
+
+  describe("итерация и обработчики топиков", () => {
+    const token = {
+      channel: "test-channel",
+      topics: ["topic1", "topic2"],
+      key: "test-key",
+    };
+
+    test("for await получает сообщения и закрывает подписку при break", async () => {
+      const stream = await subscribe(token);
+
+      receive({
+        channel: "test-channel",
+        kind: "data",
+        topic: "topic1",
+        data: 1,
+      });
+      receive({
+        channel: "test-channel",
+        kind: "data",
+        topic: "topic2",
+        data: 2,
+      });
+
+      const received: unknown[] = [];
+      for await (const message of stream) {
+        received.push(message.data);
+        if (received.length === 2) {
+          break;
+        }
+      }
+
+      expect(received).toEqual([1, 2]);
+      expect(stream.state).toBe("closed");
+      expect(MockWebSocket.latest?.readyState).toBe(MockWebSocket.CLOSED);
+    });
+
+    test("on() вызывает обработчик с данными топика", async () => {
+      const stream = await subscribe(token);
+      const handler = vi.fn();
+      const off = stream.on("topic1", handler);
+
+      receive({
+        channel: "test-channel",
+        kind: "data",
+        topic: "topic1",
+        data: { a: 1 },
+      });
+      receive({
+        channel: "test-channel",
+        kind: "data",
+        topic: "topic2",
+        data: { b: 2 },
+      });
+      await settle();
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledWith(
+        { a: 1 },
+        expect.objectContaining({ topic: "topic1", kind: "data" }),
+      );
+
+      off();
+      receive({
+        channel: "test-channel",
+        kind: "data",
+        topic: "topic1",
+        data: { a: 2 },
+      });
+      await settle();
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      stream.close();
+    });
+
+    test("доставляет сообщения жизненного цикла только при указании kinds", async () => {
+      const receiveRunAndData = async () => {
+        receive({
+          channel: "test-channel",
+          kind: "run",
+          run_id: "run-1",
+          data: { status: "started" },
+        });
+        receive({
+          channel: "test-channel",
+          kind: "data",
+          topic: "topic1",
+          data: 1,
+        });
+        await settle();
+      };
+
+      const callback = vi.fn();
+      const stream = await subscribe(
+        { ...token, kinds: ["data", "run"] },
+        callback,
+      );
+      await receiveRunAndData();
+
+      expect(callback.mock.calls.map(([msg]) => msg.kind).sort()).toEqual([
+        "data",
+        "run",
+      ]);
+
+      const reader = stream.getReader();
+      const received = [await reader.read(), await reader.read()];
+      expect(received.map(({ value }) => value?.kind).sort()).toEqual([
+        "data",
+        "run",
+      ]);
+      reader.releaseLock();
+      stream.close();
+
+      const defaultCallback = vi.fn();
+      const defaultStream = await subscribe(token, defaultCallback);
+      await receiveRunAndData();
+
+      expect(defaultCallback.mock.calls.map(([msg]) => msg.kind)).toEqual([
+        "data",
+      ]);
+      defaultStream.close();
+    });
+
+    test("on() с именем события подписывается на событие", async () => {
+      const stream = await subscribe(token);
+      const listener = vi.fn();
+      stream.on("state", listener);
+
+      stream.close();
+
+      expect(listener).toHaveBeenCalledWith("closed");
+    });
+  });
+
+  describe("ответы Fetch API", () => {
+    const token = {
+      channel: "test-channel",
+      topics: ["topic1"],
+      key: "test-key",
+    };
+
+    test("toSSEResponse возвращает поток событий с заголовками", async () => {
+      const stream = await subscribe(token);
+      const res = toSSEResponse(stream, {
+        retry: 2000,
+        headers: { "Cache-Control": "no-store", "X-Custom": "1" },
+      });
+
+      expect(res.headers.get("Content-Type")).toBe(
+        "text/event-stream; charset=utf-8",
+      );
+      expect(res.headers.get("Cache-Control")).toBe("no-store");
+      expect(res.headers.get("X-Accel-Buffering")).toBe("no");
+      expect(res.headers.get("X-Custom")).toBe("1");
+
+      const reader = res.body!.getReader();
+      const { value } = await reader.read();
+      expect(new TextDecoder().decode(value)).toBe("retry: 2000\n\n");
+
+      stream.close();
+      await expect(reader.read()).resolves.toMatchObject({ done: true });
+    });
+
+    test("toNdjsonResponse возвращает JSON построчно", async () => {
+      const stream = await subscribe(token);
+      const res = toNdjsonResponse(stream);
+
+      expect(res.headers.get("Content-Type")).toBe(
+        "application/x-ndjson; charset=utf-8",
+      );
+      expect(res.headers.get("Cache-Control")).toBe("no-cache, no-transform");
+
+      stream.close();
+      await expect(res.text()).resolves.toBe("");
+    });
+
+    test("закрывает подписку при отключении клиента", async () => {
+      const controller = new AbortController();
+      const stream = await subscribe(token);
+      toSSEResponse(stream, { signal: controller.signal });
+
+      controller.abort();
+
+      expect(stream.state).toBe("closed");
+    });
+
+    test("закрывает подписку при отмене тела ответа", async () => {
+      const stream = await subscribe(token);
+      const res = toNdjsonResponse(stream);
+
+      await res.body!.cancel();
+      await settle();
+
+      expect(stream.state).toBe("closed");
+    });
+  });
+
+  describe("subscribeToProxy", () => {
+    test("получает сообщения через toSSEResponse", async () => {
+      const testChannel = channel("test-channel").addTopic(topic("topic1"));
+      const upstreamToken = {
+        channel: "test-channel",
+        topics: ["topic1"],
+        key: "test-key",
+      };
+      const upstream = await subscribe(upstreamToken);
+      const res = toSSEResponse(upstream);
+
+      const stream = await subscribeToProxy({
+        channel: testChannel(),
+        topics: ["topic1"],
+        url: "https://app.test/realtime",
+        fetch: vi.fn().mockResolvedValue(res),
+      });
+
+      receive({
+        channel: "test-channel",
+        kind: "data",
+        topic: "topic1",
+        data: { a: 1 },
+      });
+
+      for await (const message of stream) {
+        expect(message).toMatchObject({
+          topic: "topic1",
+          data: { a: 1 },
+          createdAt: new Date("2024-01-01T00:00:00.000Z"),
+        });
+        break;
+      }
+
+      await settle();
+      expect(upstream.state).toBe("closed");
+    });
+  });
+
   describe("getSubscriptionToken", () => {
     test("получает токен подписки", async () => {
       const mockGetToken = vi.fn().mockResolvedValue("test-token");
@@ -242,6 +774,22 @@ describe("subscribe helpers", () => {
       ).rejects.toThrow("Failed to get subscription token");
     });
 
+    test("выбрасывает ошибку если у приложения нет API клиента для нескольких каналов", async () => {
+      await expect(
+        getSubscriptionToken(
+          {},
+          {
+            channels: [
+              { channel: "chan-a", topics: ["topic1"] },
+              { channel: "chan-b", topics: ["topic1"] },
+            ],
+          },
+        ),
+      ).rejects.toThrow(
+        "Failed to get subscription token: the app has no API client",
+      );
+    });
+
     test("работает с несколькими топиками", async () => {
       const mockGetToken = vi.fn().mockResolvedValue("test-token");
 
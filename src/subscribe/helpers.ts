@@ -1,10 +1,48 @@
+import type { StandardSchemaV1 } from "@standard-schema/spec";
+import debug from "debug";
 import type { Inngest } from "inngest";
+import { api as realtimeApi } from "../api";
 import { getEnvVar } from "../env";
 import type { Realtime } from "../types";
-import { TokenSubscription } from "./TokenSubscription";
+import { createDeferredPromise, iterateStream, withAbortSignal } from "../util";
+import { type ConnectionPool, connectionPool } from "./ConnectionPool";
+import {
+  ProxySubscription,
+  type ProxySubscriptionOptions,
+} from "./ProxySubscription";
+import {
+  TokenSubscription,
+  type TokenSubscriptionOptions,
+} from "./TokenSubscription";
 
 /**
- * Subscribe to a realtime channel
+ * Names passed to `on()` that refer to lifecycle events rather than topics
+ */
+const eventNames = new Set<string>([
+  "state",
+  "reconnecting",
+  "reconnected",
+  "error",
+  "closed",
+] satisfies (keyof Realtime.Subscribe.Events)[]);
+
+/**
+ * Kinds of message delivered when following a run, including the run's
+ * lifecycle messages
+ */
+const runMessageKinds = [
+  "data",
+  "datastream-start",
+  "datastream-end",
+  "chunk",
+  "run",
+  "step",
+  "event",
+] satisfies Realtime.Message.Any["kind"][];
+
+/**
+ * Subscribe to a realtime channel, or to several channels over a single
+ * connection by passing `channels`.
  */
 export const subscribe = async <
   const InputChannel extends Realtime.Channel | string,
@@ -12,11 +50,28 @@ export const subscribe = async <
     Realtime.Channel.AsChannel<InputChannel>
   > &
     string)[],
-  const TToken extends Realtime.Subscribe.Token<
-    Realtime.Channel.AsChannel<InputChannel>,
-    InputTopics
+  const InputChannels extends Realtime.Subscribe.ChannelsInput = never,
+  const TToken extends ([InputChannels] extends [never]
+    ? Realtime.Subscribe.Token<
+        Realtime.Channel.AsChannel<InputChannel>,
+        InputTopics
+      >
+    : Realtime.Subscribe.MultiToken.FromChannels<InputChannels>) = [
+    InputChannels,
+  ] extends [never]
+    ? Realtime.Subscribe.Token<
+        Realtime.Channel.AsChannel<InputChannel>,
+        InputTopics
+      >
+    : Realtime.Subscribe.MultiToken.FromChannels<InputChannels>,
+  const TKinds extends Realtime.Message.Any["kind"][] = never,
+  const TOutput extends Realtime.Subscribe.StreamSubscription<
+    TToken,
+    Realtime.Subscribe.InferMessageOfKinds<TToken, TKinds>
+  > = Realtime.Subscribe.StreamSubscription<
+    TToken,
+    Realtime.Subscribe.InferMessageOfKinds<TToken, TKinds>
   >,
-  const TOutput extends Realtime.Subscribe.StreamSubscription<TToken>,
 >(
   /**
    * Subscription token with settings
@@ -28,20 +83,60 @@ export const subscribe = async <
     app?: Inngest.Like;
 
     /**
-     * Channel ID or channel object
+     * Share a connection with other subscriptions to the same channels and
+     * topics. Pass `true` to use the process-wide pool, or a `ConnectionPool`
+     * to manage the connections yourself.
+     *
+     * Connections are only shared between subscriptions using the same key,
+     * or the same signing key if there's no key. A pooled connection uses the
+     * settings of the subscription that opened it, such as `retry`, `cursor`
+     * and `replay`, ignoring those given by later subscriptions, and its
+     * topics can't be changed.
      */
-    channel: Realtime.Subscribe.InferChannelInput<InputChannel>;
+    pool?: ConnectionPool | boolean;
 
     /**
-     * List of topics to subscribe to
+     * Only deliver messages of these kinds to the callback and the returned
+     * stream.
+     *
+     * Run, step and event lifecycle messages are opt-in, and are only
+     * delivered if their kinds are given here. Without `kinds`, every other
+     * message is delivered.
      */
-    topics: InputTopics;
-  },
+    kinds?: TKinds;
+  } & (
+    | {
+        /**
+         * Channel ID or channel object
+         */
+        channel: Realtime.Subscribe.InferChannelInput<InputChannel>;
+
+        /**
+         * List of topics to subscribe to
+         */
+        topics: InputTopics;
+
+        channels?: never;
+      }
+    | {
+        /**
+         * List of channels and the topics to subscribe to for each
+         */
+        channels: InputChannels &
+          Realtime.Subscribe.ValidChannelsInput<InputChannels>;
+
+        channel?: never;
+      }
+  ) &
+    TokenSubscriptionOptions,
 
   /**
    * Callback to handle messages
    */
-  callback?: Realtime.Subscribe.Callback<TToken>,
+  callback?: Realtime.Subscribe.Callback<
+    TToken,
+    Realtime.Subscribe.InferMessageOfKinds<TToken, TKinds>
+  >,
 ): Promise<TOutput> => {
   const app: Inngest.Any | undefined = token.app as Inngest.Any | undefined;
   const api: { signingKey?: string; signingKeyFallback?: string } | undefined =
@@ -60,34 +155,481 @@ export const subscribe = async <
   const maybeSigningKeyFallback =
     api?.["signingKeyFallback"] || getEnvVar("INNGEST_SIGNING_KEY_FALLBACK");
 
-  const subscription = new TokenSubscription(
-    token as Realtime.Subscribe.Token,
-    maybeApiBaseUrl,
-    maybeSigningKey,
-    maybeSigningKeyFallback,
+  token.signal?.throwIfAborted();
+
+  const createSubscription = (onIdle: () => void, signal?: AbortSignal) => {
+    return new TokenSubscription(
+      token as Realtime.Subscribe.AnyToken,
+      maybeApiBaseUrl,
+      maybeSigningKey,
+      maybeSigningKeyFallback,
+      {
+        retry: token.retry,
+        refreshToken: token.refreshToken,
+        cursor: token.cursor,
+        onGap: token.onGap,
+        dedupe: token.dedupe,
+        replay: token.replay,
+        heartbeatTimeout: token.heartbeatTimeout,
+        pingInterval: token.pingInterval,
+        WebSocket: token.WebSocket,
+        transport: token.transport,
+        streamIdleTimeout: token.streamIdleTimeout,
+        maxOpenStreams: token.maxOpenStreams,
+        signal,
+        onIdle,
+      },
+    );
+  };
+
+  const pool = token.pool === true ? connectionPool : token.pool || undefined;
+
+  // A pooled connection may be shared with others, so it shouldn't be closed
+  // when this subscription's signal is aborted
+  const subscription = pool
+    ? pool.acquire(
+        token as Realtime.Subscribe.AnyToken,
+        maybeApiBaseUrl,
+        maybeSigningKey,
+        (onIdle) => createSubscription(onIdle),
+      )
+    : createSubscription(() => subscription.close(), token.signal);
+
+  // Keep track of the streams we hand out so that closing this subscription
+  // only ends its own streams when the connection is shared
+  const streams = new Set<ReadableStream>();
+  const track = <T extends ReadableStream>(stream: T): T => {
+    streams.add(stream);
+    return stream;
+  };
+
+  const close = () => {
+    token.signal?.removeEventListener("abort", close);
+
+    if (!pool) {
+      subscription.close();
+      return;
+    }
+
+    for (const stream of streams) {
+      subscription.closeStream(stream);
+    }
+    streams.clear();
+  };
+
+  const retStream = track(subscription.getJsonStream({ kinds: token.kinds }));
+  const callbackStream = track(
+    subscription.getJsonStream({ kinds: token.kinds }),
   );
 
-  const retStream = subscription.getJsonStream();
-  const callbackStream = subscription.getJsonStream();
+  token.signal?.addEventListener("abort", close, { once: true });
+
+  try {
+    await withAbortSignal(subscription.connect(), token.signal);
+  } catch (err) {
+    // Release our streams so that a pooled connection isn't kept around
+    await Promise.all([retStream.cancel(), callbackStream.cancel()]);
+    throw err;
+  }
+
+  /**
+   * Call `handler` with the data of each message on a topic until the returned
+   * function is called or the subscription ends
+   */
+  const onTopic = (
+    topic: string,
+    handler: (data: unknown, message: Realtime.Message.Any) => void,
+  ) => {
+    const stream = track(
+      subscription.getJsonStream({ topics: [topic], kinds: ["data"] }),
+    );
+    const messages = iterateStream(stream);
+    const log = debug("inngest:realtime");
+    let active = true;
+
+    void (async () => {
+      try {
+        for await (const message of messages) {
+          if (!active) {
+            break;
+          }
 
-  await subscription.connect();
+          try {
+            handler(message.data, message);
+          } catch (err) {
+            log(`Handler for topic "${topic}" threw:`, err);
+          }
+        }
+      } catch (err) {
+        log(`Stream for topic "${topic}" failed:`, err);
+      }
+    })();
+
+    return () => {
+      active = false;
+      streams.delete(stream);
+      subscription.closeStream(stream);
+    };
+  };
+
+  const assertNotPooled = () => {
+    if (pool) {
+      throw new Error(
+        "Topics can't be changed on a pooled subscription, as its connection is shared",
+      );
+    }
+  };
 
   const extras = {
-    getJsonStream: () => subscription.getJsonStream(),
-    getEncodedStream: () => subscription.getEncodedStream(),
+    getJsonStream: (options?: Realtime.Subscribe.JsonStreamOptions) =>
+      track(subscription.getJsonStream(options)),
+    getEncodedStream: (options?: Realtime.Subscribe.EncodedStreamOptions) =>
+      track(subscription.getEncodedStream(options)),
+    getNdjsonStream: (options?: Realtime.Subscribe.MessageStreamOptions) =>
+      track(subscription.getNdjsonStream(options)),
+    getDroppedCount: (stream: ReadableStream) =>
+      subscription.getDroppedCount(stream),
+    close,
+    unsubscribe: close,
+    [Symbol.asyncDispose ?? Symbol.for("Symbol.asyncDispose")]: async () =>
+      close(),
+    on: (
+      eventOrTopic: string,
+      listener: (payload: never, message: Realtime.Message.Any) => void,
+    ) =>
+      eventNames.has(eventOrTopic)
+        ? subscription.on(
+            eventOrTopic as keyof Realtime.Subscribe.Events,
+            listener as (payload: unknown) => void,
+          )
+        : onTopic(eventOrTopic, listener as (data: unknown) => void),
+    // Stopping iteration early ends the whole subscription, not just the
+    // stream being iterated
+    [Symbol.asyncIterator]: () => iterateStream(retStream, close),
+    addTopics: async (topics: string[], options?: { channel: string }) => {
+      assertNotPooled();
+      await subscription.addTopics(topics, options?.channel);
+      return ret;
+    },
+    removeTopics: async (topics: string[], options?: { channel: string }) => {
+      assertNotPooled();
+      await subscription.removeTopics(topics, options?.channel);
+      return ret;
+    },
   };
 
   if (callback) {
-    subscription.useCallback(callback, callbackStream);
+    subscription.useCallback(
+      callback as unknown as Realtime.Subscribe.Callback<
+        Realtime.Subscribe.AnyToken,
+        Realtime.Message.Any
+      >,
+      callbackStream,
+    );
   } else {
     callbackStream.cancel("Not needed");
   }
 
-  return Object.assign(retStream, extras) as unknown as TOutput;
+  const ret = Object.defineProperties(Object.assign(retStream, extras), {
+    roundTripTime: {
+      get: () => subscription.roundTripTime,
+      enumerable: true,
+    },
+    state: {
+      get: () => subscription.state,
+      enumerable: true,
+    },
+  }) as unknown as TOutput;
+
+  return ret;
+};
+
+/**
+ * Subscribe to the messages of a single function run, ending the subscription
+ * once the run finishes.
+ *
+ * The returned stream only contains messages from the given run, and its
+ * `result` resolves with the run's output, typed and validated by `output` if
+ * given.
+ */
+export const subscribeToRun = async <
+  const InputChannel extends Realtime.Channel | string = string,
+  const InputTopics extends (keyof Realtime.Channel.InferTopics<
+    Realtime.Channel.AsChannel<InputChannel>
+  > &
+    string)[] = [],
+  TOutput = unknown,
+>({
+  runId,
+  channel,
+  topics,
+  output,
+  ...options
+}: {
+  /**
+   * Inngest app instance
+   */
+  app?: Inngest.Like;
+
+  /**
+   * ID of the run to follow
+   */
+  runId: string;
+
+  /**
+   * Channel ID or channel object the run publishes to. Defaults to the run's
+   * ID.
+   */
+  channel?: Realtime.Subscribe.InferChannelInput<InputChannel>;
+
+  /**
+   * List of topics to receive alongside the run's lifecycle messages
+   */
+  topics?: InputTopics;
+
+  /**
+   * Schema to validate the run's output against, which also types `result`
+   */
+  output?: StandardSchemaV1<unknown, TOutput>;
+
+  /**
+   * Key used to authenticate the subscription, if already fetched
+   */
+  key?: string;
+} & TokenSubscriptionOptions): Promise<
+  Realtime.Subscribe.RunSubscription<
+    Realtime.Subscribe.Token<
+      Realtime.Channel.AsChannel<InputChannel>,
+      InputTopics
+    >,
+    TOutput
+  >
+> => {
+  const result = createDeferredPromise<TOutput>();
+
+  // Don't surface an unhandled rejection if only the stream is used
+  result.promise.catch(() => {});
+
+  const subscription = await subscribe({
+    ...options,
+    channel: channel ?? runId,
+    topics: topics ?? [],
+  } as Realtime.Subscribe.Token & TokenSubscriptionOptions);
+
+  // Lifecycle messages are only delivered to streams that ask for them, so
+  // the subscription's own stream isn't needed
+  const stream = subscription.getJsonStream({ runId, kinds: runMessageKinds });
+  const runMessages = iterateStream(
+    subscription.getJsonStream({ runId, kinds: ["run"] }),
+  );
+  void subscription.cancel();
+
+  subscription.on("closed", () => {
+    result.reject(
+      new Error(`Subscription closed before run "${runId}" finished`),
+    );
+  });
+
+  void (async () => {
+    try {
+      for await (const message of runMessages) {
+        if (message.kind !== "run") {
+          continue;
+        }
+
+        switch (message.data.status) {
+          case "completed": {
+            if (!output) {
+              result.resolve(message.data.output as TOutput);
+              break;
+            }
+
+            const validateRes = await output["~standard"].validate(
+              message.data.output,
+            );
+            if (validateRes.issues) {
+              result.reject(
+                new Error(`Output of run "${runId}" failed schema validation`, {
+                  cause: validateRes.issues,
+                }),
+              );
+              break;
+            }
+
+            result.resolve(validateRes.value);
+            break;
+          }
+
+          case "failed": {
+            const { error } = message.data;
+            result.reject(
+              Object.assign(new Error(error.message, { cause: error }), {
+                name: error.name ?? "Error",
+              }),
+            );
+            break;
+          }
+
+          case "cancelled": {
+            result.reject(new Error(`Run "${runId}" was cancelled`));
+            break;
+          }
+
+          default: {
+            continue;
+          }
+        }
+
+        subscription.close();
+        return;
+      }
+    } catch (err) {
+      // A throwing `output` schema or a failed read would otherwise leave
+      // `result` waiting forever
+      result.reject(err);
+      subscription.close();
+    }
+  })();
+
+  return Object.assign(stream, {
+    runId,
+    result: result.promise,
+    close: subscription.close,
+    [Symbol.asyncDispose ?? Symbol.for("Symbol.asyncDispose")]: async () =>
+      subscription.close(),
+  }) as unknown as Realtime.Subscribe.RunSubscription<
+    Realtime.Subscribe.Token<
+      Realtime.Channel.AsChannel<InputChannel>,
+      InputTopics
+    >,
+    TOutput
+  >;
+};
+
+/**
+ * Subscribe to a realtime channel through an endpoint on your own server that
+ * proxies the subscription, such as one returning `toSSEResponse()`, so that
+ * signing keys never reach the browser.
+ *
+ * Pass the same `channel` and `topics` as the server so that messages can be
+ * typed and validated against the topics' schemas.
+ *
+ * If the endpoint's response ends or fails, it's requested again with the
+ * last message's cursor as the `Last-Event-ID` header, which the endpoint can
+ * resume from with `parseEventId()`.
+ */
+export const subscribeToProxy = async <
+  const InputChannel extends Realtime.Channel | string,
+  const InputTopics extends (keyof Realtime.Channel.InferTopics<
+    Realtime.Channel.AsChannel<InputChannel>
+  > &
+    string)[],
+  const InputChannels extends Realtime.Subscribe.ChannelsInput = never,
+  const TToken extends ([InputChannels] extends [never]
+    ? Realtime.Subscribe.Token<
+        Realtime.Channel.AsChannel<InputChannel>,
+        InputTopics
+      >
+    : Realtime.Subscribe.MultiToken.FromChannels<InputChannels>) = [
+    InputChannels,
+  ] extends [never]
+    ? Realtime.Subscribe.Token<
+        Realtime.Channel.AsChannel<InputChannel>,
+        InputTopics
+      >
+    : Realtime.Subscribe.MultiToken.FromChannels<InputChannels>,
+  const TKinds extends Realtime.Message.Any["kind"][] = never,
+>(
+  /**
+   * Channels and topics the endpoint streams, along with how to reach it
+   */
+  token: {
+    /**
+     * Only deliver messages of these kinds to the returned stream.
+     *
+     * Run, step and event lifecycle messages are opt-in, and are only
+     * delivered if their kinds are given here. The endpoint must stream them
+     * too, such as by passing the same `kinds` to `toSSEResponse()`.
+     */
+    kinds?: TKinds;
+  } & (
+    | {
+        /**
+         * Channel ID or channel object
+         */
+        channel: Realtime.Subscribe.InferChannelInput<InputChannel>;
+
+        /**
+         * List of topics the endpoint streams
+         */
+        topics: InputTopics;
+
+        channels?: never;
+      }
+    | {
+        /**
+         * List of channels and the topics the endpoint streams for each
+         */
+        channels: InputChannels &
+          Realtime.Subscribe.ValidChannelsInput<InputChannels>;
+
+        channel?: never;
+      }
+  ) &
+    ProxySubscriptionOptions,
+): Promise<
+  Realtime.Subscribe.ProxySubscription<
+    TToken,
+    Realtime.Subscribe.InferMessageOfKinds<TToken, TKinds>
+  >
+> => {
+  const subscription = new ProxySubscription(
+    token as Realtime.Subscribe.AnyToken,
+    { ...token, onIdle: () => subscription.close() },
+  );
+
+  const stream = subscription.getJsonStream({ kinds: token.kinds });
+
+  try {
+    await subscription.connect();
+  } catch (err) {
+    await stream.cancel();
+    throw err;
+  }
+
+  const close = () => subscription.close();
+
+  return Object.assign(stream, {
+    getJsonStream: (options?: Realtime.Subscribe.JsonStreamOptions) =>
+      subscription.getJsonStream(options),
+    close,
+    unsubscribe: close,
+    [Symbol.asyncDispose ?? Symbol.for("Symbol.asyncDispose")]: async () =>
+      close(),
+    [Symbol.asyncIterator]: () => iterateStream(stream, close),
+  }) as unknown as Realtime.Subscribe.ProxySubscription<
+    TToken,
+    Realtime.Subscribe.InferMessageOfKinds<TToken, TKinds>
+  >;
 };
 
 /**
- * Get subscription token
+ * Get the API client of an app, which subscription tokens are created with.
+ */
+const getInngestApi = (app: Inngest.Like): Inngest.Any["inngestApi"] => {
+  const inngestApi = (app as Inngest.Any)["inngestApi"];
+  if (!inngestApi) {
+    throw new Error(
+      "Failed to get subscription token: the app has no API client, so pass an Inngest client as `app`",
+    );
+  }
+
+  return inngestApi;
+};
+
+/**
+ * Get subscription token. Pass `channels` to get a single token covering
+ * several channels.
  */
 export const getSubscriptionToken = async <
   const InputChannel extends Realtime.Channel | string,
@@ -95,10 +637,20 @@ export const getSubscriptionToken = async <
     Realtime.Channel.AsChannel<InputChannel>
   > &
     string)[],
-  const TToken extends Realtime.Subscribe.Token<
-    Realtime.Channel.AsChannel<InputChannel>,
-    InputTopics
-  >,
+  const InputChannels extends Realtime.Subscribe.ChannelsInput = never,
+  const TToken extends ([InputChannels] extends [never]
+    ? Realtime.Subscribe.Token<
+        Realtime.Channel.AsChannel<InputChannel>,
+        InputTopics
+      >
+    : Realtime.Subscribe.MultiToken.FromChannels<InputChannels>) = [
+    InputChannels,
+  ] extends [never]
+    ? Realtime.Subscribe.Token<
+        Realtime.Channel.AsChannel<InputChannel>,
+        InputTopics
+      >
+    : Realtime.Subscribe.MultiToken.FromChannels<InputChannels>,
 >(
   /**
    * Inngest app instance
@@ -108,18 +660,69 @@ export const getSubscriptionToken = async <
   /**
    * Subscription parameters
    */
-  args: {
-    /**
-     * Channel ID or channel object
-     */
-    channel: Realtime.Subscribe.InferChannelInput<InputChannel>;
+  args: (
+    | {
+        /**
+         * Channel ID or channel object
+         */
+        channel: Realtime.Subscribe.InferChannelInput<InputChannel>;
+
+        /**
+         * List of topics
+         */
+        topics: InputTopics;
+
+        channels?: never;
+      }
+    | {
+        /**
+         * List of channels and the topics to cover for each
+         */
+        channels: InputChannels &
+          Realtime.Subscribe.ValidChannelsInput<InputChannels>;
 
+        channel?: never;
+      }
+  ) & {
     /**
-     * List of topics
+     * Abort fetching the token
      */
-    topics: InputTopics;
+    signal?: AbortSignal;
   },
 ): Promise<TToken> => {
+  args.signal?.throwIfAborted();
+
+  if (!("topics" in args)) {
+    const channels = args.channels.map(({ channel, topics }) => ({
+      channel: typeof channel === "string" ? channel : channel.name,
+      topics,
+    }));
+
+    if (channels.some(({ channel }) => !channel)) {
+      throw new Error("Channel ID is required to create subscription token");
+    }
+
+    // Multi-channel tokens aren't supported by the SDK's API client, so mint
+    // them ourselves using the app's credentials.
+    const inngestApi: { signingKey?: string; signingKeyFallback?: string } =
+      getInngestApi(app);
+
+    const key = await realtimeApi.getSubscriptionToken({
+      channels,
+      signingKey: inngestApi.signingKey,
+      signingKeyFallback: inngestApi.signingKeyFallback,
+      apiBaseUrl: (app as Inngest.Any).apiBaseUrl,
+      signal: args.signal,
+    });
+
+    const token = {
+      channels,
+      key,
+    } as unknown as TToken;
+
+    return token;
+  }
+
   const channelId =
     typeof args.channel === "string" ? args.channel : args.channel.name;
 
@@ -127,16 +730,155 @@ export const getSubscriptionToken = async <
     throw new Error("Channel ID is required to create subscription token");
   }
 
-  const key = await (app as Inngest.Any)["inngestApi"].getSubscriptionToken(
-    channelId,
-    args.topics,
+  // The SDK's API client can't be aborted, so stop waiting on it instead
+  const key = await withAbortSignal<string>(
+    getInngestApi(app).getSubscriptionToken(channelId, args.topics),
+    args.signal,
   );
 
   const token = {
     channel: channelId,
     topics: args.topics,
     key,
-  } as TToken;
+  } as unknown as TToken;
 
   return token;
 };
+
+/**
+ * Headers for streamed responses that stop proxies, such as nginx, from
+ * caching or buffering them
+ */
+const streamingHeaders = {
+  "Cache-Control": "no-cache, no-transform",
+  "X-Accel-Buffering": "no",
+};
+
+/**
+ * Build a `Response` that streams the given body, closing the subscription
+ * when the client disconnects
+ */
+const createStreamingResponse = (
+  subscription: { close(): void },
+  stream: ReadableStream<Uint8Array>,
+  contentType: string,
+  { headers, signal }: Realtime.Subscribe.ResponseOptions,
+): Response => {
+  const reader = stream.getReader();
+
+  const close = () => {
+    signal?.removeEventListener("abort", close);
+    subscription.close();
+  };
+
+  if (signal?.aborted) {
+    close();
+  } else {
+    signal?.addEventListener("abort", close, { once: true });
+  }
+
+  const body = new ReadableStream<Uint8Array>({
+    pull: async (controller) => {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          signal?.removeEventListener("abort", close);
+          controller.close();
+          return;
+        }
+
+        controller.enqueue(value);
+      } catch (err) {
+        signal?.removeEventListener("abort", close);
+        controller.error(err);
+      }
+    },
+    cancel: async (reason) => {
+      close();
+      await reader.cancel(reason);
+    },
+  });
+
+  const responseHeaders = new Headers({
+    "Content-Type": contentType,
+    ...streamingHeaders,
+  });
+  new Headers(headers).forEach((value, key) => {
+    responseHeaders.set(key, value);
+  });
+
+  return new Response(body, { headers: responseHeaders });
+};
+
+/**
+ * Create a `Response` that streams a subscription's messages to the client as
+ * Server-Sent Events, for use in route handlers such as Next.js or Hono.
+ *
+ * The subscription is closed when the client disconnects, either by passing
+ * the request's `signal` or when the runtime cancels the response body.
+ *
+ * Each event's ID is the cursor of its message. When an `EventSource`
+ * reconnects, it sends the last ID it received as the `Last-Event-ID` header;
+ * pass it through `parseEventId()` as the new subscription's `cursor` to
+ * replay anything the client missed.
+ */
+export const toSSEResponse = (
+  /**
+   * Subscription to stream
+   */
+  subscription: Pick<
+    Realtime.Subscribe.StreamSubscription,
+    "getEncodedStream" | "close"
+  >,
+
+  /**
+   * Options for the response
+   */
+  {
+    keepAliveMs,
+    retry,
+    headers,
+    signal,
+    ...options
+  }: Realtime.Subscribe.SSEResponseOptions = {},
+): Response => {
+  return createStreamingResponse(
+    subscription,
+    subscription.getEncodedStream({
+      ...options,
+      retry,
+      keepAliveInterval: keepAliveMs,
+    }),
+    "text/event-stream; charset=utf-8",
+    { headers, signal },
+  );
+};
+
+/**
+ * Create a `Response` that streams a subscription's messages to the client as
+ * newline-delimited JSON, for use in route handlers such as Next.js or Hono.
+ *
+ * The subscription is closed when the client disconnects, either by passing
+ * the request's `signal` or when the runtime cancels the response body.
+ */
+export const toNdjsonResponse = (
+  /**
+   * Subscription to stream
+   */
+  subscription: Pick<
+    Realtime.Subscribe.StreamSubscription,
+    "getNdjsonStream" | "close"
+  >,
+
+  /**
+   * Options for the response
+   */
+  { headers, signal, ...options }: Realtime.Subscribe.ResponseOptions = {},
+): Response => {
+  return createStreamingResponse(
+    subscription,
+    subscription.getNdjsonStream(options),
+    "application/x-ndjson; charset=utf-8",
+    { headers, signal },
+  );
+};
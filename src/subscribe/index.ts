@@ -1 +1,4 @@
+export { ConnectionPool } from "./ConnectionPool";
+export { parseEventId } from "./cursor";
 export * from "./helpers";
+export { StreamInterruptedError, type StreamInterruptedReason } from "./errors";
@@ -0,0 +1,49 @@
+import { describe, test, expect } from "vitest";
+import { defaultRetryPolicy, getRetryDelay, resolveRetryPolicy } from "./retry";
+
+describe("retry", () => {
+  describe("resolveRetryPolicy", () => {
+    test("возвращает политику по умолчанию", () => {
+      expect(resolveRetryPolicy()).toEqual(defaultRetryPolicy);
+    });
+
+    test("объединяет частичную политику с умолчаниями", () => {
+      const policy = resolveRetryPolicy({ maxAttempts: Infinity });
+
+      expect(policy.maxAttempts).toBe(Infinity);
+      expect(policy.initialDelay).toBe(defaultRetryPolicy.initialDelay);
+      expect(policy.jitter).toBe(defaultRetryPolicy.jitter);
+    });
+  });
+
+  describe("getRetryDelay", () => {
+    test("без jitter использует экспоненциальную задержку", () => {
+      const policy = resolveRetryPolicy({ jitter: "none" });
+
+      expect(getRetryDelay(policy, 1)).toBe(1000);
+      expect(getRetryDelay(policy, 2)).toBe(2000);
+      expect(getRetryDelay(policy, 3)).toBe(4000);
+    });
+
+    test("ограничивает задержку maxDelay", () => {
+      const policy = resolveRetryPolicy({ jitter: "none", maxDelay: 5000 });
+
+      expect(getRetryDelay(policy, 10)).toBe(5000);
+    });
+
+    test("full jitter возвращает значение от 0 до задержки", () => {
+      const policy = resolveRetryPolicy({ jitter: "full" });
+
+      expect(getRetryDelay(policy, 3, undefined, () => 0)).toBe(0);
+      expect(getRetryDelay(policy, 3, undefined, () => 0.5)).toBe(2000);
+    });
+
+    test("decorrelated jitter зависит от предыдущей задержки", () => {
+      const policy = resolveRetryPolicy({ jitter: "decorrelated" });
+
+      expect(getRetryDelay(policy, 2, 2000, () => 0)).toBe(1000);
+      expect(getRetryDelay(policy, 2, 2000, () => 0.5)).toBe(3500);
+      expect(getRetryDelay(policy, 2, 60_000, () => 0.99)).toBe(30_000);
+    });
+  });
+});
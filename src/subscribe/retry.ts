@@ -0,0 +1,80 @@
+import { type Realtime } from "../types";
+
+/**
+ * The retry policy used when none, or only part of one, is given.
+ */
+export const defaultRetryPolicy = {
+  maxAttempts: 5,
+  initialDelay: 1000,
+  maxDelay: 30_000,
+  jitter: "full",
+  shouldRetry: () => true,
+} satisfies Required<Realtime.Subscribe.RetryPolicy>;
+
+/**
+ * Fill in any missing settings of a retry policy with the defaults.
+ */
+export const resolveRetryPolicy = (
+  /**
+   * Partial retry policy given by the user
+   */
+  policy: Realtime.Subscribe.RetryPolicy = {},
+): Required<Realtime.Subscribe.RetryPolicy> => {
+  return {
+    maxAttempts: policy.maxAttempts ?? defaultRetryPolicy.maxAttempts,
+    initialDelay: policy.initialDelay ?? defaultRetryPolicy.initialDelay,
+    maxDelay: policy.maxDelay ?? defaultRetryPolicy.maxDelay,
+    jitter: policy.jitter ?? defaultRetryPolicy.jitter,
+    shouldRetry: policy.shouldRetry ?? defaultRetryPolicy.shouldRetry,
+  };
+};
+
+/**
+ * Calculate how long to wait before making the given reconnection attempt.
+ */
+export const getRetryDelay = (
+  /**
+   * Resolved retry policy
+   */
+  policy: Required<Realtime.Subscribe.RetryPolicy>,
+
+  /**
+   * The attempt about to be made, starting at `1`
+   */
+  attempt: number,
+
+  /**
+   * The delay used for the previous attempt, used for decorrelated jitter
+   */
+  previousDelay: number = policy.initialDelay,
+
+  /**
+   * Source of randomness, returning a number in `[0, 1)`
+   */
+  random: () => number = Math.random,
+): number => {
+  const { initialDelay, maxDelay } = policy;
+
+  switch (policy.jitter) {
+    case "decorrelated": {
+      const upper = Math.max(initialDelay, previousDelay * 3);
+      return Math.min(
+        maxDelay,
+        initialDelay + random() * (upper - initialDelay),
+      );
+    }
+
+    case "full": {
+      const backoff = Math.min(
+        maxDelay,
+        initialDelay * Math.pow(2, attempt - 1),
+      );
+      return random() * backoff;
+    }
+
+    case "none":
+    default: {
+      return Math.min(maxDelay, initialDelay * Math.pow(2, attempt - 1));
+    }
+  }
+};
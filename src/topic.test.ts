@@ -182,4 +182,29 @@ describe("topic", () => {
       expect(t.getSchema()).toBe(schema3);
     });
   });
+
+  describe("схема фрагментов потока", () => {
+    test("getStreamSchema() возвращает undefined без схемы", () => {
+      expect(topic("test").getStreamSchema()).toBeUndefined();
+    });
+
+    test("stream() добавляет схему фрагментов и сохраняет схему топика", () => {
+      const schema = v.number();
+      const streamSchema = v.string();
+      const t = topic("test").schema(schema).stream(streamSchema);
+
+      expect(t.getSchema()).toBe(schema);
+      expect(t.getStreamSchema()).toBe(streamSchema);
+    });
+
+    test("schema() и type() сохраняют схему фрагментов", () => {
+      const streamSchema = v.string();
+      const t = topic("test")
+        .stream(streamSchema)
+        .schema(v.number())
+        .type<number>();
+
+      expect(t.getStreamSchema()).toBe(streamSchema);
+    });
+  });
 });
@@ -18,20 +18,32 @@ export class TopicDefinitionImpl<
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   TPublish = any,
   TSubscribe = TPublish,
-> implements Realtime.Topic.Definition<TTopicId, TPublish, TSubscribe> {
+  TChunk = never,
+> implements Realtime.Topic.Definition<TTopicId, TPublish, TSubscribe, TChunk> {
   public name: TTopicId;
   #schema?: StandardSchemaV1;
+  #streamSchema?: StandardSchemaV1;
 
-  constructor(name: TTopicId, schema?: StandardSchemaV1) {
+  constructor(
+    name: TTopicId,
+    schema?: StandardSchemaV1,
+    streamSchema?: StandardSchemaV1,
+  ) {
     this.name = name;
     this.#schema = schema;
+    this.#streamSchema = streamSchema;
   }
 
   public type<
     const UPublish,
     const USubscribe = UPublish,
-  >(): Realtime.Topic.Definition<TTopicId, UPublish, USubscribe> {
-    return this as Realtime.Topic.Definition<TTopicId, UPublish, USubscribe>;
+  >(): Realtime.Topic.Definition<TTopicId, UPublish, USubscribe, TChunk> {
+    return this as Realtime.Topic.Definition<
+      TTopicId,
+      UPublish,
+      USubscribe,
+      TChunk
+    >;
   }
 
   public schema<const TSchema extends StandardSchemaV1>(
@@ -39,12 +51,28 @@ export class TopicDefinitionImpl<
   ): Realtime.Topic.Definition<
     TTopicId,
     StandardSchemaV1.InferInput<TSchema>,
+    StandardSchemaV1.InferOutput<TSchema>,
+    TChunk
+  > {
+    return new TopicDefinitionImpl(this.name, schema, this.#streamSchema);
+  }
+
+  public stream<const TSchema extends StandardSchemaV1>(
+    schema: TSchema,
+  ): Realtime.Topic.Definition<
+    TTopicId,
+    TPublish,
+    TSubscribe,
     StandardSchemaV1.InferOutput<TSchema>
   > {
-    return new TopicDefinitionImpl(this.name, schema);
+    return new TopicDefinitionImpl(this.name, this.#schema, schema);
   }
 
   public getSchema(): StandardSchemaV1 | undefined {
     return this.#schema;
   }
+
+  public getStreamSchema(): StandardSchemaV1 | undefined {
+    return this.#streamSchema;
+  }
 }
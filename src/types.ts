@@ -29,33 +29,687 @@ export namespace Realtime {
       : T;
 
     export type StreamSubscription<
-      TSubscribeToken extends Token = Token,
-      TData extends Simplify<Token.InferMessage<TSubscribeToken>> = Simplify<
-        Token.InferMessage<TSubscribeToken>
-      >,
+      TSubscribeToken extends AnyToken = Token,
+      TData extends { kind: string; topic?: unknown } =
+        InferMessageOfKinds<TSubscribeToken>,
     > = ReadableStream<TData> & {
       /**
        * Get a new readable stream from the subscription that delivers JSON chunks.
        *
        * The stream starts when this function is called and will not contain any
-       * messages that were sent before this function was called.
+       * messages that were sent before this function was called, unless the
+       * subscription was created with `replay`.
+       *
+       * Pass `topics`, `runId`, `kinds` or `filter` to only receive matching
+       * messages, narrowing the stream's type to match.
        */
-      getJsonStream(): ReadableStream<TData>;
+      getJsonStream<
+        const TOptions extends JsonStreamOptions<TData> =
+          JsonStreamOptions<TData>,
+      >(
+        options?: TOptions,
+      ): ReadableStream<JsonStreamOptions.Filter<TData, TOptions>>;
 
       /**
        * Get a new readable stream from the subscription that delivers
-       * SSE-compatible chunks, which are compatible with the `EventSource` API
+       * Server-Sent Events, which are compatible with the `EventSource` API
        * and generally used for streaming data from a server to the browser.
        *
+       * Each event is named after the message's topic, or its kind if it has
+       * no topic. Its `id` is the message's cursor, as `<createdAt>` or
+       * `<createdAt>:<seq>` with `createdAt` in milliseconds, which
+       * `EventSource` sends back as the `Last-Event-ID` header when it
+       * reconnects. Pass it to `parseEventId()` to resume from that message.
+       *
+       * Run, step and event lifecycle messages are only included if their
+       * kinds are given.
+       *
        * The stream starts when this function is called and will not contain any
-       * messages that were sent before this function was called.
+       * messages that were sent before this function was called, unless the
+       * subscription was created with `replay`.
+       */
+      getEncodedStream(
+        options?: EncodedStreamOptions,
+      ): ReadableStream<Uint8Array>;
+
+      /**
+       * Get a new readable stream from the subscription that delivers each
+       * message as a line of JSON.
+       *
+       * Run, step and event lifecycle messages are only included if their
+       * kinds are given.
+       *
+       * The stream starts when this function is called and will not contain any
+       * messages that were sent before this function was called, unless the
+       * subscription was created with `replay`.
+       */
+      getNdjsonStream(
+        options?: MessageStreamOptions,
+      ): ReadableStream<Uint8Array>;
+
+      /**
+       * Get the number of messages dropped from a stream created by this
+       * subscription because its reader fell behind.
+       */
+      getDroppedCount(stream: ReadableStream): number;
+
+      /**
+       * The round-trip time in milliseconds of the latest ping sent to the
+       * server, if `pingInterval` is set and the server has answered one.
+       */
+      readonly roundTripTime: number | undefined;
+
+      /**
+       * The current connection state of the subscription.
+       */
+      readonly state: State;
+
+      /**
+       * Listen for lifecycle events such as reconnections, or for messages on a
+       * topic, returning a function that removes the listener.
+       *
+       * Lifecycle events take precedence over topics with the same name; use
+       * `getJsonStream({ topics })` to receive messages for those topics.
        */
-      getEncodedStream(): ReadableStream<Uint8Array>;
+      on: On & OnTopic<TData>;
+
+      /**
+       * Iterate over the subscription's messages with `for await`. Stopping
+       * early, such as with `break`, closes the subscription.
+       */
+      [Symbol.asyncIterator](): AsyncIterableIterator<TData>;
+
+      /**
+       * Close the subscription, ending every stream created from it and
+       * closing the connection.
+       *
+       * If the connection is pooled, only this subscription's streams are
+       * ended, and the connection is closed once nothing else is using it.
+       */
+      close(): void;
+
+      /**
+       * Alias of `close()`.
+       */
+      unsubscribe(): void;
+
+      /**
+       * Close the subscription when used with `await using`.
+       */
+      [Symbol.asyncDispose](): Promise<void>;
+    } & (TSubscribeToken extends Token
+        ? StreamSubscription.TopicControls<TSubscribeToken>
+        : StreamSubscription.MultiChannelTopicControls<TSubscribeToken>);
+
+    export namespace StreamSubscription {
+      export interface TopicControls<TSubscribeToken extends Token> {
+        /**
+         * Start receiving messages for the given topics without opening a new
+         * connection, fetching a new token first if the current one doesn't
+         * cover them.
+         *
+         * Resolves to this same subscription, typed to include the new topics.
+         */
+        addTopics<
+          const UTopics extends (keyof Channel.InferTopics<
+            Token.InferChannel<TSubscribeToken>
+          > &
+            string)[],
+        >(
+          topics: UTopics,
+        ): Promise<
+          StreamSubscription<
+            Token<
+              Token.InferChannel<TSubscribeToken>,
+              (Token.InferTopics<TSubscribeToken>[number] | UTopics[number])[]
+            >
+          >
+        >;
+
+        /**
+         * Stop receiving messages for the given topics without closing the
+         * connection.
+         *
+         * Resolves to this same subscription, typed to exclude the removed
+         * topics.
+         */
+        removeTopics<
+          const UTopics extends Token.InferTopics<TSubscribeToken>[number][],
+        >(
+          topics: UTopics,
+        ): Promise<
+          StreamSubscription<
+            Token<
+              Token.InferChannel<TSubscribeToken>,
+              Exclude<
+                Token.InferTopics<TSubscribeToken>[number],
+                UTopics[number]
+              >[]
+            >
+          >
+        >;
+      }
+
+      export interface MultiChannelTopicControls<
+        TSubscribeToken extends AnyToken,
+      > {
+        /**
+         * Start receiving messages for the given topics of one of the
+         * subscription's channels without opening a new connection, fetching
+         * a new token first if the current one doesn't cover them.
+         *
+         * Resolves to this same subscription.
+         */
+        addTopics(
+          topics: string[],
+          options: { channel: string },
+        ): Promise<StreamSubscription<TSubscribeToken>>;
+
+        /**
+         * Stop receiving messages for the given topics of one of the
+         * subscription's channels without closing the connection.
+         *
+         * Resolves to this same subscription.
+         */
+        removeTopics(
+          topics: string[],
+          options: { channel: string },
+        ): Promise<StreamSubscription<TSubscribeToken>>;
+      }
+    }
+
+    /**
+     * A subscription that's proxied through another server, consumed from an
+     * endpoint returning `toSSEResponse()` or `toNdjsonResponse()`.
+     */
+    export type ProxySubscription<
+      TSubscribeToken extends AnyToken = Token,
+      TData extends { kind: string; topic?: unknown } =
+        InferMessageOfKinds<TSubscribeToken>,
+    > = ReadableStream<TData> & {
+      /**
+       * Get a new readable stream from the subscription that delivers JSON
+       * chunks.
+       *
+       * Pass `topics`, `runId`, `kinds` or `filter` to only receive matching
+       * messages, narrowing the stream's type to match.
+       */
+      getJsonStream<
+        const TOptions extends JsonStreamOptions<TData> =
+          JsonStreamOptions<TData>,
+      >(
+        options?: TOptions,
+      ): ReadableStream<JsonStreamOptions.Filter<TData, TOptions>>;
+
+      /**
+       * Iterate over the subscription's messages with `for await`. Stopping
+       * early, such as with `break`, closes the subscription.
+       */
+      [Symbol.asyncIterator](): AsyncIterableIterator<TData>;
+
+      /**
+       * Close the subscription, ending every stream created from it and
+       * cancelling the request to the endpoint.
+       */
+      close(): void;
+
+      /**
+       * Alias of `close()`.
+       */
+      unsubscribe(): void;
+
+      /**
+       * Close the subscription when used with `await using`.
+       */
+      [Symbol.asyncDispose](): Promise<void>;
+    };
+
+    /**
+     * A subscription to the messages of a single function run, which ends
+     * along with the run.
+     */
+    export type RunSubscription<
+      TSubscribeToken extends Token = Token,
+      TOutput = unknown,
+    > = ReadableStream<
+      Simplify<
+        | InferMessage<TSubscribeToken>
+        | Message.Lifecycle<
+            Channel.InferId<Token.InferChannel<TSubscribeToken>>
+          >
+      >
+    > & {
+      /**
+       * ID of the run being followed
+       */
+      readonly runId: string;
+
+      /**
+       * Resolves with the run's output once it completes, or rejects if it
+       * fails, is cancelled, or the subscription ends before the run does.
+       */
+      result: Promise<TOutput>;
+
+      /**
+       * Stop following the run, ending the stream and closing the connection.
+       */
+      close(): void;
+
+      /**
+       * Close the subscription when used with `await using`.
+       */
+      [Symbol.asyncDispose](): Promise<void>;
     };
 
     export type Callback<
-      TSubscribeToken extends Subscribe.Token = Subscribe.Token,
-    > = (message: Token.InferMessage<TSubscribeToken>) => void;
+      TSubscribeToken extends Subscribe.AnyToken = Subscribe.Token,
+      TMessage = InferMessage<TSubscribeToken>,
+    > = (message: TMessage) => void;
+
+    /**
+     * Controls how a subscription reconnects after its connection drops
+     * unexpectedly.
+     */
+    export interface RetryPolicy {
+      /**
+       * Maximum number of consecutive reconnection attempts before the
+       * subscription gives up and closes. Use `Infinity` to retry forever.
+       *
+       * Defaults to `5`.
+       */
+      maxAttempts?: number;
+
+      /**
+       * Base delay in milliseconds used to calculate the backoff.
+       *
+       * Defaults to `1000`.
+       */
+      initialDelay?: number;
+
+      /**
+       * Upper bound in milliseconds for any single reconnection delay.
+       *
+       * Defaults to `30000`.
+       */
+      maxDelay?: number;
+
+      /**
+       * Jitter strategy applied to the exponential backoff, used to stop many
+       * clients reconnecting in lockstep after a server restart.
+       *
+       * - `"none"`: pure exponential backoff
+       * - `"full"`: a random delay between `0` and the exponential backoff
+       * - `"decorrelated"`: a random delay between `initialDelay` and three
+       *   times the previous delay
+       *
+       * Defaults to `"full"`.
+       */
+      jitter?: RetryPolicy.Jitter;
+
+      /**
+       * Decide whether a reconnection attempt should be made. Return `false`
+       * to close the subscription instead.
+       *
+       * `attempt` is the number of the attempt about to be made, starting at
+       * `1`.
+       */
+      shouldRetry?: (closeEvent: CloseInfo, attempt: number) => boolean;
+    }
+
+    export namespace RetryPolicy {
+      export type Jitter = "none" | "full" | "decorrelated";
+    }
+
+    /**
+     * Fetch a fresh subscription token, used when the current one has expired
+     * or been rejected. May return either the whole token or only its key.
+     */
+    export type RefreshToken = (
+      /**
+       * The channels and topics the new token must cover, which may differ
+       * from the original token if topics have been added.
+       */
+      args: {
+        channels: { channel: string; topics: string[] }[];
+
+        /**
+         * Aborted if the subscription is aborted while fetching the token.
+         */
+        signal?: AbortSignal;
+      },
+    ) => Promise<Pick<Token, "key"> | string | undefined>;
+
+    /**
+     * The position of the last message delivered to a subscription, used to
+     * ask the server to replay anything missed while reconnecting.
+     */
+    export interface Cursor {
+      /**
+       * When the last delivered message was created.
+       */
+      createdAt: Date;
+
+      /**
+       * The server-assigned sequence number of the last delivered message, if
+       * the server provides one. Sequence numbers are counted per channel.
+       */
+      seq?: number;
+    }
+
+    /**
+     * Describes messages that were missed and could not be replayed.
+     */
+    export interface Gap {
+      /**
+       * The cursor of the last message delivered before the gap.
+       */
+      from: Cursor;
+
+      /**
+       * The cursor of the first message delivered after the gap.
+       */
+      to: Cursor;
+
+      /**
+       * How many messages were missed.
+       */
+      missed: number;
+    }
+
+    /**
+     * Details of why a connection was closed.
+     */
+    export type CloseInfo = Pick<CloseEvent, "code" | "reason" | "wasClean">;
+
+    /**
+     * A WebSocket implementation, such as the global `WebSocket` or the one
+     * from the `ws` package.
+     *
+     * Only the parts of the standard `WebSocket` API that subscriptions use
+     * are required.
+     */
+    export interface WebSocketConstructor {
+      new (url: URL): WebSocketConstructor.Instance;
+    }
+
+    export namespace WebSocketConstructor {
+      export interface Instance {
+        readonly readyState: number;
+        onopen: Handler<unknown> | null;
+        onmessage: Handler<{ data: unknown; lastEventId?: string }> | null;
+        onerror: Handler<unknown> | null;
+        onclose: Handler<CloseInfo> | null;
+        send(data: string): void;
+        close(code?: number, reason?: string): void;
+      }
+
+      /**
+       * An event handler. It's declared as a method so that implementations
+       * whose handlers take more specific events, such as `MessageEvent`,
+       * still match.
+       */
+      export type Handler<TEvent> = {
+        handle(event: TEvent): void;
+      }["handle"];
+    }
+
+    /**
+     * What to do when a stream's reader falls behind and its buffer is full.
+     *
+     * - `drop-oldest`: drop the oldest buffered message to make room
+     * - `drop-newest`: drop the incoming message
+     * - `error`: error the stream
+     * - `close`: close the stream once the buffered messages have been read
+     */
+    export type Overflow = "drop-oldest" | "drop-newest" | "error" | "close";
+
+    /**
+     * Options for a stream created from a subscription.
+     */
+    export interface StreamOptions {
+      /**
+       * The most messages to buffer for a reader that has fallen behind.
+       * Unlimited by default.
+       */
+      highWaterMark?: number;
+
+      /**
+       * What to do when the buffer is full. Defaults to `drop-oldest`.
+       */
+      overflow?: Overflow;
+    }
+
+    /**
+     * Options for a stream of encoded messages created from a subscription,
+     * including which messages to include in it.
+     *
+     * As with JSON streams, run, step and event lifecycle messages are only
+     * included if their kinds are given.
+     */
+    export interface MessageStreamOptions
+      extends StreamOptions, Pick<JsonStreamOptions, "topics" | "kinds"> {}
+
+    /**
+     * Options for a stream of Server-Sent Events created from a subscription.
+     */
+    export interface EncodedStreamOptions extends MessageStreamOptions {
+      /**
+       * How long in milliseconds an `EventSource` should wait before
+       * reconnecting if the stream drops. Defaults to the initial delay of the
+       * subscription's retry policy.
+       */
+      retry?: number;
+
+      /**
+       * How often in milliseconds to send a `: keepalive` comment so that
+       * proxies don't close a quiet stream. Defaults to 15 seconds; pass `0` to
+       * disable.
+       */
+      keepAliveInterval?: number;
+    }
+
+    /**
+     * Options for a `Response` that streams a subscription's messages.
+     */
+    export interface ResponseOptions extends MessageStreamOptions {
+      /**
+       * Extra headers to send, overriding the defaults.
+       */
+      headers?: HeadersInit;
+
+      /**
+       * Close the subscription when this is aborted. Pass the request's
+       * `signal` to close it when the client disconnects.
+       */
+      signal?: AbortSignal;
+    }
+
+    /**
+     * Options for a `Response` that streams a subscription's messages as
+     * Server-Sent Events.
+     */
+    export interface SSEResponseOptions extends ResponseOptions {
+      /**
+       * How long in milliseconds an `EventSource` should wait before
+       * reconnecting if the stream drops.
+       */
+      retry?: number;
+
+      /**
+       * How often in milliseconds to send a `: keepalive` comment so that
+       * proxies don't close a quiet stream. Defaults to 15 seconds; pass `0` to
+       * disable.
+       */
+      keepAliveMs?: number;
+    }
+
+    /**
+     * Options for a JSON stream created from a subscription, including which
+     * messages to deliver to it.
+     */
+    export interface JsonStreamOptions<
+      TMessage extends { kind: string; topic?: unknown } = Message,
+    > extends StreamOptions {
+      /**
+       * Only deliver messages for these topics.
+       */
+      topics?: NonNullable<TMessage["topic"]>[];
+
+      /**
+       * Only deliver messages from this run.
+       */
+      runId?: string;
+
+      /**
+       * Only deliver messages of these kinds.
+       *
+       * Run, step and event lifecycle messages are only delivered if their
+       * kinds are given here.
+       */
+      kinds?: (TMessage["kind"] | Message.Lifecycle["kind"])[];
+
+      /**
+       * Only deliver messages for which this returns `true`.
+       */
+      filter?: (
+        message: TMessage | JsonStreamOptions.InferLifecycle<TMessage>,
+      ) => boolean;
+    }
+
+    export namespace JsonStreamOptions {
+      /**
+       * The lifecycle messages that can be delivered alongside the given
+       * messages, if asked for by kind.
+       */
+      export type InferLifecycle<TMessage> = Message.Lifecycle<
+        TMessage extends { channel: infer IChannel extends string }
+          ? IChannel
+          : string
+      >;
+
+      /**
+       * Narrow the messages of a stream to those matching the given options.
+       */
+      export type Filter<TMessage, TOptions> = Extract<
+        TOptions extends { kinds: unknown[] }
+          ? TMessage | InferLifecycle<TMessage>
+          : TMessage,
+        (TOptions extends { topics: (infer ITopic)[] }
+          ? { topic: ITopic }
+          : unknown) &
+          (TOptions extends { kinds: (infer IKind)[] }
+            ? { kind: IKind }
+            : unknown)
+      >;
+    }
+
+    /**
+     * Options for keeping recent messages to deliver to streams created after
+     * they were received.
+     */
+    export interface ReplayOptions {
+      /**
+       * The most messages to keep. Defaults to 100.
+       */
+      size?: number;
+
+      /**
+       * Forget messages older than this many milliseconds.
+       */
+      maxAge?: number;
+
+      /**
+       * Keep `size` messages for each channel and topic, rather than overall,
+       * so that busy topics don't push out quieter ones.
+       */
+      perTopic?: boolean;
+    }
+
+    /**
+     * The connection state of a subscription.
+     *
+     * - `idle`: not yet connected
+     * - `connecting`: making the first connection
+     * - `active`: connected and receiving messages
+     * - `reconnecting`: the connection dropped and we're trying to restore it
+     * - `closed`: the subscription has ended and will not reconnect
+     */
+    export type State =
+      "idle" | "connecting" | "active" | "reconnecting" | "closed";
+
+    /**
+     * Lifecycle events emitted by a subscription, mapped to their payloads.
+     */
+    export interface Events {
+      /**
+       * The connection state changed.
+       */
+      state: State;
+
+      /**
+       * The connection dropped and a reconnection attempt has been scheduled.
+       */
+      reconnecting: {
+        attempt: number;
+        delay: number;
+        closeInfo: CloseInfo;
+      };
+
+      /**
+       * The connection was restored after dropping.
+       */
+      reconnected: {
+        attempts: number;
+      };
+
+      /**
+       * A connection attempt failed. The subscription may still reconnect.
+       */
+      error: unknown;
+
+      /**
+       * The subscription ended and will not reconnect.
+       */
+      closed: {
+        /**
+         * - `closed`: the subscription was closed by the client
+         * - `aborted`: the subscription's `signal` was aborted
+         * - `server`: the server closed the connection normally
+         * - `retries-exhausted`: the retry policy gave up reconnecting
+         */
+        reason: "closed" | "aborted" | "server" | "retries-exhausted";
+        closeInfo?: CloseInfo;
+      };
+    }
+
+    /**
+     * Listen for a lifecycle event, returning a function that removes the
+     * listener.
+     */
+    export type On = <TEvent extends keyof Events>(
+      event: TEvent,
+      listener: (payload: Events[TEvent]) => void,
+    ) => () => void;
+
+    /**
+     * Listen for messages on a topic, receiving each message's data.
+     */
+    export type OnTopic<TMessage extends { kind: string; topic?: unknown }> = <
+      TTopic extends Exclude<
+        Extract<NonNullable<TMessage["topic"]>, string>,
+        keyof Events
+      >,
+    >(
+      topic: TTopic,
+      handler: (
+        data: Extract<TMessage, { kind: "data"; topic: TTopic }> extends {
+          data: infer IData;
+        }
+          ? IData
+          : never,
+        message: Extract<TMessage, { kind: "data"; topic: TTopic }>,
+      ) => void,
+    ) => () => void;
 
     export interface Token<
       TChannel extends Channel | Channel.Definition = Channel,
@@ -78,6 +732,15 @@ export namespace Realtime {
           ? IChannel
           : Channel;
 
+      export type InferTopics<TToken extends Token> =
+        TToken extends Token<
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          any,
+          infer ITopics
+        >
+          ? ITopics
+          : string[];
+
       export type InferTopicData<
         TToken extends Token,
         TChannelTopics extends Record<string, Topic.Definition> =
@@ -95,6 +758,92 @@ export namespace Realtime {
         >
       >;
     }
+
+    /**
+     * A token covering several channels, allowing them to share a single
+     * connection.
+     */
+    export interface MultiToken<TTokens extends Token[] = Token[]> {
+      // key used to auth - could be undefined as then we can do a cold subscribe
+      key?: string | undefined;
+      channels: TTokens;
+    }
+
+    export namespace MultiToken {
+      /**
+       * Build a multi-channel token type from a list of channel inputs.
+       */
+      export type FromChannels<TChannels extends ChannelsInput> = MultiToken<{
+        [K in keyof TChannels]: Token<
+          Channel.AsChannel<TChannels[K]["channel"]>,
+          TChannels[K]["topics"] extends (keyof Channel.InferTopics<
+            Channel.AsChannel<TChannels[K]["channel"]>
+          >)[]
+            ? TChannels[K]["topics"]
+            : never
+        >;
+      }>;
+
+      export type InferMessage<TToken extends MultiToken> =
+        TToken extends MultiToken<infer ITokens>
+          ? {
+              [K in keyof ITokens]: ITokens[K] extends Token
+                ? Token.InferMessage<ITokens[K]>
+                : never;
+            }[number]
+          : never;
+    }
+
+    /**
+     * Either a single-channel or multi-channel token.
+     */
+    export type AnyToken = Token | MultiToken;
+
+    /**
+     * Infer the messages that will be received using the given token.
+     */
+    export type InferMessage<TToken extends AnyToken> =
+      TToken extends MultiToken
+        ? MultiToken.InferMessage<TToken>
+        : TToken extends Token
+          ? Token.InferMessage<TToken>
+          : never;
+
+    /**
+     * Infer the messages delivered by a subscription that asked for the given
+     * kinds of message. Lifecycle messages are only included if their kinds
+     * are given, and without any kinds every other message is.
+     */
+    export type InferMessageOfKinds<
+      TToken extends AnyToken,
+      TKinds extends Message.Any["kind"][] = never,
+    > = [TKinds] extends [never]
+      ? Simplify<InferMessage<TToken>>
+      : Simplify<
+          JsonStreamOptions.Filter<InferMessage<TToken>, { kinds: TKinds }>
+        >;
+
+    /**
+     * A list of channels and topics to subscribe to over a single connection.
+     */
+    export type ChannelsInput = {
+      channel: Realtime.Channel | string;
+      topics: string[];
+    }[];
+
+    /**
+     * Validates that each topic in a list of channel inputs exists on its
+     * channel.
+     */
+    export type ValidChannelsInput<TChannels extends ChannelsInput> = {
+      [K in keyof TChannels]: {
+        channel: TChannels[K]["channel"];
+        topics: (keyof Channel.InferTopics<
+          Channel.AsChannel<TChannels[K]["channel"]>
+        > &
+          string)[];
+      };
+    };
   }
 
   // We need to use a `Message` type so that we can appropriately type incoming
@@ -121,6 +870,8 @@ export namespace Realtime {
         .transform((v) => (v ? new Date(v) : undefined)),
       env_id: z.string().optional(),
       stream_id: z.string().optional(),
+      seq: z.number().int().optional(),
+      id: z.string().optional(),
       kind: z.enum([
         "step",
         "run",
@@ -143,6 +894,42 @@ export namespace Realtime {
       };
     });
 
+  const serializedErrorSchema = z.object({
+    name: z.string().optional(),
+    message: z.string(),
+    stack: z.string().optional(),
+  });
+
+  /**
+   * Schemas for the `data` of run, step and event lifecycle messages, keyed by
+   * message kind.
+   */
+  export const lifecycleDataSchemas = {
+    run: z.discriminatedUnion("status", [
+      z.object({ status: z.literal("started") }),
+      z.object({ status: z.literal("completed"), output: z.any() }),
+      z.object({ status: z.literal("failed"), error: serializedErrorSchema }),
+      z.object({ status: z.literal("cancelled") }),
+    ]),
+    step: z.intersection(
+      z.object({ id: z.string(), name: z.string().optional() }),
+      z.discriminatedUnion("status", [
+        z.object({ status: z.literal("started") }),
+        z.object({ status: z.literal("completed"), output: z.any() }),
+        z.object({
+          status: z.literal("failed"),
+          error: serializedErrorSchema,
+        }),
+      ]),
+    ),
+    event: z.object({
+      id: z.string().optional(),
+      name: z.string(),
+      data: z.any(),
+      ts: z.number().optional(),
+    }),
+  };
+
   // Subscribe (output) msg
   export type Message<
     TChannelId extends string = string,
@@ -161,6 +948,18 @@ export namespace Realtime {
           createdAt: Date;
           envId?: string;
           kind: "data";
+
+          /**
+           * Whether this message was sent before the stream was created
+           * and is being replayed to it
+           */
+          replayed?: boolean;
+
+          /**
+           * Where this message is in the subscription, which can be passed as
+           * `cursor` to resume a subscription after it
+           */
+          cursor?: Realtime.Subscribe.Cursor;
         }
       | {
           topic: K;
@@ -168,13 +967,127 @@ export namespace Realtime {
           data: Realtime.Topic.InferSubscribe<TTopics[K]>;
           runId?: string;
           fnId?: string;
-          kind: "datastream-start" | "datastream-end" | "chunk";
+          kind: "datastream-start" | "datastream-end";
+          streamId: string;
+          stream: ReadableStream<Realtime.Topic.InferChunk<TTopics[K]>>;
+
+          /**
+           * Where this message is in the subscription, which can be passed as
+           * `cursor` to resume a subscription after it
+           */
+          cursor?: Realtime.Subscribe.Cursor;
+        }
+      | {
+          topic: K;
+          channel: TChannelId;
+          data: Realtime.Topic.InferChunk<TTopics[K]>;
+          runId?: string;
+          fnId?: string;
+          kind: "chunk";
           streamId: string;
-          stream: ReadableStream<Realtime.Topic.InferSubscribe<TTopics[K]>>;
+          stream: ReadableStream<Realtime.Topic.InferChunk<TTopics[K]>>;
+
+          /**
+           * Where this message is in the subscription, which can be passed as
+           * `cursor` to resume a subscription after it
+           */
+          cursor?: Realtime.Subscribe.Cursor;
         };
   }[keyof TTopics];
 
   export namespace Message {
+    /**
+     * An error thrown by a run or step, serialized to be sent over the wire
+     */
+    export type SerializedError = z.output<typeof serializedErrorSchema>;
+
+    /**
+     * Fields shared by all run, step and event lifecycle messages
+     */
+    type LifecycleBase<TChannelId extends string> = {
+      channel: TChannelId;
+      topic?: never;
+      runId: string;
+      fnId?: string;
+      createdAt: Date;
+      envId?: string;
+
+      /**
+       * Whether this message was sent before the stream was created and is
+       * being replayed to it
+       */
+      replayed?: boolean;
+
+      /**
+       * Where this message is in the subscription, which can be passed as
+       * `cursor` to resume a subscription after it
+       */
+      cursor?: Subscribe.Cursor;
+    };
+
+    /**
+     * A function run starting or finishing, along with its output or error
+     */
+    export type Run<
+      TChannelId extends string = string,
+      TOutput = unknown,
+    > = LifecycleBase<TChannelId> & {
+      kind: "run";
+      data:
+        | { status: "started" }
+        | { status: "completed"; output: TOutput }
+        | { status: "failed"; error: SerializedError }
+        | { status: "cancelled" };
+    };
+
+    /**
+     * A step within a function run starting or finishing, along with its
+     * result or error
+     */
+    export type Step<TChannelId extends string = string> =
+      LifecycleBase<TChannelId> & {
+        kind: "step";
+        data: { id: string; name?: string } & (
+          | { status: "started" }
+          | { status: "completed"; output: unknown }
+          | { status: "failed"; error: SerializedError }
+        );
+      };
+
+    /**
+     * An event that triggered a function run
+     */
+    export type Event<TChannelId extends string = string> =
+      LifecycleBase<TChannelId> & {
+        kind: "event";
+        data: {
+          id?: string;
+          name: string;
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          data: any;
+          ts?: number;
+        };
+      };
+
+    /**
+     * Messages sent by Inngest itself as function runs progress, without
+     * having to publish them from each step
+     */
+    export type Lifecycle<TChannelId extends string = string> =
+      Run<TChannelId> | Step<TChannelId> | Event<TChannelId>;
+
+    /**
+     * Any message a subscription can deliver, including lifecycle messages,
+     * which are only delivered to streams that ask for them by kind
+     */
+    export type Any<
+      TChannelId extends string = string,
+      TTopics extends Record<string, Realtime.Topic.Definition> = Record<
+        string,
+        Realtime.Topic.Definition
+      >,
+    > = Message<TChannelId, TTopics> | Lifecycle<TChannelId>;
+
     // Publish (input) msg
     export type Input<
       TChannelId extends string = string,
@@ -203,6 +1116,8 @@ export namespace Realtime {
         fn_id?: string;
         created_at?: Date;
         env_id?: string;
+        seq?: number;
+        id?: string;
         kind:
           | "step" // step data
           | "run" // run results
@@ -365,42 +1280,79 @@ export namespace Realtime {
       TPublish = any,
       // eslint-disable-next-line @typescript-eslint/no-unused-vars
       _TSubscribe = TPublish,
+      // `never` means no chunk schema was given, so chunks are typed like
+      // the topic's messages.
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      _TChunk = never,
     > {
       name: TTopicId;
 
       // Deliberately doesn't include `USubscribe` typing, as there's no schema
       // to perform transformations.
-      type<const UPublish>(): Definition<TTopicId, UPublish>;
+      type<const UPublish>(): Definition<TTopicId, UPublish, UPublish, _TChunk>;
 
       schema<const TSchema extends StandardSchemaV1>(
         schema: TSchema,
       ): Definition<
         TTopicId,
         StandardSchemaV1.InferInput<TSchema>,
+        StandardSchemaV1.InferOutput<TSchema>,
+        _TChunk
+      >;
+
+      /**
+       * Validate the chunks of streams published to this topic with the given
+       * schema, typing the streams to match.
+       */
+      stream<const TSchema extends StandardSchemaV1>(
+        schema: TSchema,
+      ): Definition<
+        TTopicId,
+        TPublish,
+        _TSubscribe,
         StandardSchemaV1.InferOutput<TSchema>
       >;
 
       getSchema(): StandardSchemaV1 | undefined;
+
+      /**
+       * Get the schema used to validate the chunks of streams published to
+       * this topic, if any.
+       */
+      getStreamSchema(): StandardSchemaV1 | undefined;
     }
 
     export type InferId<TTopic extends Topic.Definition> =
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      TTopic extends Topic.Definition<infer IId, any, any> ? IId : string;
+      TTopic extends Topic.Definition<infer IId, any, any, any> ? IId : string;
 
     export type InferPublish<TTopic extends Topic.Definition> =
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      TTopic extends Topic.Definition<any, infer IPublish, any>
+      TTopic extends Topic.Definition<any, infer IPublish, any, any>
         ? IPublish
         : // eslint-disable-next-line @typescript-eslint/no-explicit-any
           any;
 
     export type InferSubscribe<TTopic extends Topic.Definition> =
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      TTopic extends Topic.Definition<any, any, infer ISubscribe>
+      TTopic extends Topic.Definition<any, any, infer ISubscribe, any>
         ? ISubscribe
         : // eslint-disable-next-line @typescript-eslint/no-explicit-any
           any;
 
+    /**
+     * Infer the type of the chunks of streams published to a topic, which
+     * are typed like the topic's messages unless it has a chunk schema.
+     */
+    export type InferChunk<TTopic extends Topic.Definition> =
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      TTopic extends Topic.Definition<any, any, infer ISubscribe, infer IChunk>
+        ? [IChunk] extends [never]
+          ? ISubscribe
+          : IChunk
+        : // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          any;
+
     export type Builder = <const TTopicId extends string>(
       id: TTopicId,
     ) => Topic.Definition<TTopicId>;
@@ -2,7 +2,10 @@ import { describe, test, expect, vi } from "vitest";
 import {
   createDeferredPromise,
   fetchWithAuthFallback,
+  getJwtExpiry,
+  iterateStream,
   parseAsBoolean,
+  withAbortSignal,
 } from "./util";
 
 describe("util", () => {
@@ -240,4 +243,89 @@ describe("util", () => {
       expect(parseAsBoolean([])).toBeUndefined();
     });
   });
+
+  describe("getJwtExpiry", () => {
+    const createJwt = (claims: Record<string, unknown>) => {
+      const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+      return `header.${payload}.signature`;
+    };
+
+    test("возвращает дату из claim exp", () => {
+      expect(getJwtExpiry(createJwt({ exp: 1700000000 }))).toEqual(
+        new Date(1700000000 * 1000),
+      );
+    });
+
+    test("возвращает undefined если нет claim exp", () => {
+      expect(getJwtExpiry(createJwt({ sub: "test" }))).toBeUndefined();
+    });
+
+    test("возвращает undefined для некорректного токена", () => {
+      expect(getJwtExpiry("not-a-jwt")).toBeUndefined();
+      expect(getJwtExpiry("a.%%%.c")).toBeUndefined();
+    });
+  });
+
+  describe("withAbortSignal", () => {
+    test("возвращает результат промиса без сигнала", async () => {
+      await expect(
+        withAbortSignal(Promise.resolve("ok"), undefined),
+      ).resolves.toBe("ok");
+    });
+
+    test("отклоняется с AbortError при отмене", async () => {
+      const controller = new AbortController();
+      const promise = withAbortSignal(new Promise(() => {}), controller.signal);
+
+      controller.abort();
+
+      await expect(promise).rejects.toMatchObject({ name: "AbortError" });
+    });
+
+    test("сразу отклоняется если сигнал уже отменен", async () => {
+      await expect(
+        withAbortSignal(Promise.resolve("ok"), AbortSignal.abort()),
+      ).rejects.toMatchObject({ name: "AbortError" });
+    });
+  });
+
+  describe("iterateStream", () => {
+    test("перебирает все элементы потока", async () => {
+      const stream = new ReadableStream<number>({
+        start(controller) {
+          controller.enqueue(1);
+          controller.enqueue(2);
+          controller.close();
+        },
+      });
+
+      const values: number[] = [];
+      for await (const value of iterateStream(stream)) {
+        values.push(value);
+      }
+
+      expect(values).toEqual([1, 2]);
+      expect(stream.locked).toBe(false);
+    });
+
+    test("отменяет поток и вызывает onReturn при break", async () => {
+      const cancel = vi.fn();
+      const onReturn = vi.fn();
+      const stream = new ReadableStream<number>({
+        pull(controller) {
+          controller.enqueue(1);
+        },
+        cancel,
+      });
+
+      for await (const value of iterateStream(stream, onReturn)) {
+        expect(value).toBe(1);
+        break;
+      }
+
+      expect(cancel).toHaveBeenCalled();
+      expect(onReturn).toHaveBeenCalledTimes(1);
+      expect(stream.locked).toBe(false);
+    });
+  });
 });
@@ -102,3 +102,119 @@ export const parseAsBoolean = (value: unknown): boolean | undefined => {
 
   return undefined;
 };
+
+/**
+ * Given a JWT, return the time at which it expires according to its `exp`
+ * claim.
+ *
+ * This does not verify the token in any way; it is only used to avoid using a
+ * token that we already know has expired. If the token could not be decoded
+ * or has no `exp` claim, this function returns `undefined`.
+ */
+export const getJwtExpiry = (jwt: string): Date | undefined => {
+  const payload = jwt.split(".")[1];
+  if (!payload) {
+    return undefined;
+  }
+
+  try {
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const claims: unknown = JSON.parse(atob(base64));
+
+    if (
+      typeof claims === "object" &&
+      claims !== null &&
+      "exp" in claims &&
+      typeof claims.exp === "number"
+    ) {
+      return new Date(claims.exp * 1000);
+    }
+  } catch {
+    // noop
+  }
+
+  return undefined;
+};
+
+/**
+ * Wrap a promise so that it rejects with the signal's reason as soon as the
+ * signal is aborted, even if the promise itself can't be cancelled.
+ */
+export const withAbortSignal = <T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined,
+): Promise<T> => {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", onAbort);
+    });
+  });
+};
+
+/**
+ * Iterate over the chunks of a stream without relying on the runtime
+ * supporting async iteration of streams.
+ *
+ * The reader's lock is released once the stream ends. If iteration stops
+ * early, such as with `break`, the stream is cancelled and `onReturn` is
+ * called.
+ */
+export const iterateStream = <T>(
+  stream: ReadableStream<T>,
+  onReturn?: () => void,
+): AsyncIterableIterator<T> => {
+  const reader = stream.getReader();
+
+  const release = () => {
+    try {
+      reader.releaseLock();
+    } catch {
+      // Reader might already be released
+    }
+  };
+
+  return {
+    async next() {
+      try {
+        const result = await reader.read();
+        if (result.done) {
+          release();
+        }
+
+        return result.done
+          ? { done: true, value: undefined }
+          : { done: false, value: result.value };
+      } catch (err) {
+        release();
+        throw err;
+      }
+    },
+
+    async return() {
+      try {
+        await reader.cancel();
+      } finally {
+        release();
+        onReturn?.();
+      }
+
+      return { done: true, value: undefined };
+    },
+
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  };
+};